@@ -0,0 +1,53 @@
+/**
+ * @file generate-flagged.js
+ * @description Generates src/utils/flagged-data.ts from the manual override list in data/flagged-transactions.json.
+ *
+ * Each entry is `{ "transactionHash": "0x…", "reason": "WashTrade" | "Spam", "note": "…" }`.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const INPUT = path.join(__dirname, '..', 'data', 'flagged-transactions.json');
+const OUTPUT = path.join(__dirname, '..', 'src', 'utils', 'flagged-data.ts');
+
+const REASONS = ['WashTrade', 'Spam'];
+
+function main() {
+  const entries = JSON.parse(fs.readFileSync(INPUT, 'utf8'));
+
+  const seen = new Set();
+  for (const entry of entries) {
+    const hash = String(entry.transactionHash).toLowerCase();
+    if (!/^0x[0-9a-f]{64}$/.test(hash)) throw new Error(`Invalid transaction hash: ${entry.transactionHash}`);
+    if (!REASONS.includes(entry.reason)) throw new Error(`Invalid reason for ${hash}: ${entry.reason}`);
+    if (seen.has(hash)) throw new Error(`Duplicate transaction hash: ${hash}`);
+
+    seen.add(hash);
+    entry.transactionHash = hash;
+  }
+
+  const quote = (value) => `'${String(value || '').replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const list = (values) => (values.length ? `[\n${values.map((value) => `  ${quote(value)},`).join('\n')}\n]` : '[]');
+
+  const source = `/**
+ * @file flagged-data.ts
+ * @description Manually flagged transactions.
+ * Generated by scripts/generate-flagged.js from data/flagged-transactions.json, do not edit by hand.
+ */
+
+/** Lowercase hashes of the flagged transactions. */
+export const flaggedTransactionHashes: string[] = ${list(entries.map((entry) => entry.transactionHash))};
+
+/** Reason code of each flagged transaction (WashTrade or Spam). */
+export const flaggedTransactionReasons: string[] = ${list(entries.map((entry) => entry.reason))};
+
+/** Reviewer note of each flagged transaction. */
+export const flaggedTransactionNotes: string[] = ${list(entries.map((entry) => entry.note))};
+`;
+
+  fs.writeFileSync(OUTPUT, source);
+  console.log(`Wrote ${entries.length} flagged transactions to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main();
@@ -0,0 +1,101 @@
+/**
+ * @file generate-prices.js
+ * @description Generates src/utils/price-data.ts from the price histories in data/<pair>.csv,
+ * the fallback tables of the Chainlink feed registry in src/utils/price-oracle.ts.
+ *
+ * Each CSV row is `timestamp,usd` where timestamp is a Unix timestamp in seconds and usd is the
+ * close of the pair in US dollars at that time. Lookups pick the closest timestamp, so finer rows
+ * give finer prices; the bundled ETH/USD history is daily.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const DATA_DIR = path.join(__dirname, '..', 'data');
+const OUTPUT = path.join(__dirname, '..', 'src', 'utils', 'price-data.ts');
+
+/** Fallback tables by name, in the order they are written */
+const TABLES = [
+  { name: 'ethUsd', pair: 'ETH/USD', file: 'eth-usd.csv' },
+  { name: 'eurUsd', pair: 'EUR/USD', file: 'eur-usd.csv' },
+  { name: 'gbpUsd', pair: 'GBP/USD', file: 'gbp-usd.csv' },
+  { name: 'jpyUsd', pair: 'JPY/USD', file: 'jpy-usd.csv' },
+  { name: 'btcUsd', pair: 'BTC/USD', file: 'btc-usd.csv' },
+];
+
+/**
+ * Parses a price history, ordered by timestamp.
+ * @param {string} file - The CSV file name in the data directory.
+ * @returns {{ timestamp: string, usd: string }[]}
+ */
+function readPrices(file) {
+  const lines = fs.readFileSync(path.join(DATA_DIR, file), 'utf8').split(/\r?\n/).slice(1);
+
+  const prices = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    const [timestamp, usd] = line.split(',').map((field) => field.trim());
+    if (!/^\d+$/.test(timestamp)) throw new Error(`Invalid timestamp: ${timestamp}`);
+    if (!(Number(usd) > 0)) throw new Error(`Invalid price at ${timestamp}: ${usd}`);
+
+    prices.push({ timestamp, usd });
+  }
+
+  prices.sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+  prices.forEach((price, index) => {
+    if (index > 0 && price.timestamp === prices[index - 1].timestamp) {
+      throw new Error(`Duplicate timestamp ${price.timestamp}`);
+    }
+  });
+
+  return prices;
+}
+
+/**
+ * Describes the span and granularity of a price history.
+ * @param {{ timestamp: string }[]} prices - The prices, ordered by timestamp.
+ * @returns {string}
+ */
+function describeCoverage(prices) {
+  if (prices.length === 0) return 'no rows';
+
+  const date = (timestamp) => new Date(Number(timestamp) * 1000).toISOString().slice(0, 10);
+  let largestGap = 0;
+  for (let i = 1; i < prices.length; i++) {
+    largestGap = Math.max(largestGap, Number(prices[i].timestamp) - Number(prices[i - 1].timestamp));
+  }
+
+  return `${date(prices[0].timestamp)} to ${date(prices[prices.length - 1].timestamp)}, largest gap ${(largestGap / 3600).toFixed(1)}h`;
+}
+
+function main() {
+  const tables = TABLES.map((table) => ({ ...table, prices: readPrices(table.file) }));
+
+  const source = `/**
+ * @file price-data.ts
+ * @description Historical prices backing the Chainlink feeds before they went live or when they cannot be read.
+ * Generated by scripts/generate-prices.js from data/<pair>.csv, do not edit by hand.
+ */
+${tables
+  .map(
+    (table) => `
+/** ${table.pair} timestamps in seconds, ascending. */
+export const ${table.name}Timestamps: StaticArray<i64> = [${table.prices.map((price) => price.timestamp).join(', ')}];
+
+/** ${table.pair} prices in US dollars, indexed like ${table.name}Timestamps. */
+export const ${table.name}Values: StaticArray<f64> = [${table.prices.map((price) => price.usd).join(', ')}];
+`,
+  )
+  .join('')}`;
+
+  fs.writeFileSync(OUTPUT, source);
+  for (const table of tables) {
+    if (table.prices.length === 0) {
+      console.warn(`Warning: data/${table.file} has no rows, ${table.pair} is unknown until its Chainlink feed can be read`);
+    }
+    console.log(`Wrote ${table.prices.length} ${table.pair} prices (${describeCoverage(table.prices)}) to ${path.relative(process.cwd(), OUTPUT)}`);
+  }
+}
+
+main();
@@ -0,0 +1,110 @@
+/**
+ * @file generate-traits.js
+ * @description Generates src/utils/traits-data.ts from the punk attribute dataset in data/punks.csv.
+ *
+ * Each CSV row is `id,type,accessories` where accessories are separated by " / ".
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const INPUT = path.join(__dirname, '..', 'data', 'punks.csv');
+const OUTPUT = path.join(__dirname, '..', 'src', 'utils', 'traits-data.ts');
+
+const CATEGORY_TYPE = 'Type';
+const CATEGORY_ACCESSORY = 'Accessory';
+const CATEGORY_ATTRIBUTE_COUNT = 'AttributeCount';
+
+const PUNK_COUNT = 10000;
+const PUNK_TYPES = ['Alien', 'Ape', 'Zombie', 'Male', 'Female'];
+
+/**
+ * Parses the dataset into a list of punks ordered by id.
+ * @returns {{ id: number, traits: { name: string, category: string }[] }[]}
+ */
+function readPunks() {
+  const lines = fs.readFileSync(INPUT, 'utf8').split(/\r?\n/).slice(1);
+
+  const punks = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    const [id, type, accessories = ''] = line.split(',').map((field) => field.trim());
+    if (!PUNK_TYPES.includes(type)) throw new Error(`Unknown type for punk ${id}: ${type}`);
+    const names = accessories ? accessories.split('/').map((name) => name.trim()).filter(Boolean) : [];
+
+    punks.push({
+      id: Number(id),
+      traits: [
+        { name: type, category: CATEGORY_TYPE },
+        ...names.map((name) => ({ name, category: CATEGORY_ACCESSORY })),
+        { name: `${names.length} Attributes`, category: CATEGORY_ATTRIBUTE_COUNT },
+      ],
+    });
+  }
+
+  punks.sort((a, b) => a.id - b.id);
+  punks.forEach((punk, index) => {
+    if (punk.id !== index) throw new Error(`Missing or duplicate punk before id ${punk.id}`);
+  });
+
+  return punks;
+}
+
+function main() {
+  const punks = readPunks();
+  if (punks.length !== PUNK_COUNT) {
+    throw new Error(`${path.relative(process.cwd(), INPUT)} has ${punks.length} of ${PUNK_COUNT} punks`);
+  }
+
+  const traitIndex = new Map();
+  const traitNames = [];
+  const traitCategories = [];
+  const traitRarities = [];
+  const punkTraitOffsets = [0];
+  const punkTraits = [];
+
+  for (const punk of punks) {
+    for (const trait of punk.traits) {
+      if (!traitIndex.has(trait.name)) {
+        traitIndex.set(trait.name, traitNames.length);
+        traitNames.push(trait.name);
+        traitCategories.push(trait.category);
+        traitRarities.push(0);
+      }
+      const index = traitIndex.get(trait.name);
+      traitRarities[index]++;
+      punkTraits.push(index);
+    }
+    punkTraitOffsets.push(punkTraits.length);
+  }
+
+  const quote = (value) => `'${value.replace(/'/g, "\\'")}'`;
+
+  const source = `/**
+ * @file traits-data.ts
+ * @description Punk type and accessory data.
+ * Generated by scripts/generate-traits.js from data/punks.csv, do not edit by hand.
+ */
+
+/** Trait names, indexed by trait index. */
+export const traitNames: string[] = [${traitNames.map(quote).join(', ')}];
+
+/** Trait categories, indexed by trait index. */
+export const traitCategories: string[] = [${traitCategories.map(quote).join(', ')}];
+
+/** Number of punks with each trait, indexed by trait index. */
+export const traitRarities: StaticArray<i32> = [${traitRarities.join(', ')}];
+
+/** Punk i has the traits punkTraits[punkTraitOffsets[i]] up to punkTraits[punkTraitOffsets[i + 1]]. */
+export const punkTraitOffsets: StaticArray<i32> = [${punkTraitOffsets.join(', ')}];
+
+/** Trait indices grouped by punk, the punk type first. */
+export const punkTraits: StaticArray<i32> = [${punkTraits.join(', ')}];
+`;
+
+  fs.writeFileSync(OUTPUT, source);
+  console.log(`Wrote ${punks.length} punks and ${traitNames.length} traits to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main();
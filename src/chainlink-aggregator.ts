@@ -0,0 +1,36 @@
+/**
+ * @file chainlink-aggregator.ts
+ * @description Handles AnswerUpdated events from the Chainlink aggregators behind the registered price feed proxies.
+ */
+
+import { dataSource } from '@graphprotocol/graph-ts';
+
+import { AnswerUpdated as AnswerUpdatedEvent } from '../generated/templates/ChainlinkAggregator/ChainlinkAggregator';
+import { PriceFeed } from '../generated/schema';
+
+import { getOrCreatePriceRound } from './utils/price-oracle';
+
+/**
+ * Handles the AnswerUpdated event.
+ * @param event - The AnswerUpdatedEvent object.
+ */
+export function handleAnswerUpdated(event: AnswerUpdatedEvent): void {
+  let pair = dataSource.context().getString('pair');
+  let feed = PriceFeed.load(pair);
+  let aggregator = feed ? feed.aggregator : null;
+
+  // Ignore rounds from an aggregator the proxy no longer points to
+  if (!feed || !aggregator || !aggregator.equals(event.address)) return;
+
+  let round = getOrCreatePriceRound(
+    pair,
+    event.address,
+    event.params.roundId,
+    event.params.current,
+    event.params.updatedAt,
+    event.block.number,
+  );
+
+  feed.latestRound = round.id;
+  feed.save();
+}
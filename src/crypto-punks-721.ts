@@ -0,0 +1,23 @@
+/**
+ * @file crypto-punks-721.ts
+ * @description Handles events from the CryptoPunks721 wrapper contract.
+ */
+
+import { Transfer as TransferEvent } from '../generated/CryptoPunks721/CryptoPunks721';
+
+import { CRYPTOPUNKS_721_ADDRESS } from './utils/constants';
+import { handleWrappedTransfer } from './utils/wrappers';
+
+/**
+ * Handles the Transfer event.
+ * @param event - The TransferEvent object.
+ */
+export function handleTransfer(event: TransferEvent): void {
+  handleWrappedTransfer(
+    event,
+    CRYPTOPUNKS_721_ADDRESS,
+    event.params.from.toHexString(),
+    event.params.to.toHexString(),
+    event.params.tokenId,
+  );
+}
@@ -3,9 +3,9 @@
  * @description Handles events from the CryptoPunksMarket contract and updates the subgraph accordingly.
  */
 
-import { BigInt, store } from '@graphprotocol/graph-ts';
+import { BigDecimal, BigInt, store } from '@graphprotocol/graph-ts';
 
-import { Account, Bid, Event, Listing, Punk, Transfer } from '../generated/schema';
+import { Account, Bid, Event, Listing, Transfer } from '../generated/schema';
 
 import {
   Assign as AssignEvent,
@@ -16,11 +16,24 @@ import {
   PunkBidWithdrawn as PunkBidWithdrawnEvent,
   PunkBought as PunkBoughtEvent,
   PunkNoLongerForSale as PunkNoLongerForSaleEvent,
+  WithdrawCall,
 } from '../generated/CryptoPunksMarket/CryptoPunksMarket';
 
-import { getFloorFromActiveListings, getGlobalId, getOrCreateAccount, getOrCreatePunk, getOrCreateState, loadPrevBidEvent, loadPrevSaleEvent, setPunkNoLongerForSale, updateOwnership } from './utils/helpers';
-import { BIGINT_ONE, BIGINT_ZERO, WRAPPER_ADDRESS, ZERO_ADDRESS, washTrades } from './utils/constants';
-import { USDValue } from './utils/conversions';
+import { getGlobalId, getPrevGlobalId, creditPendingWithdrawal, getOrCreateAccount, getOrCreateMarketTotals, getOrCreatePunk, getOrCreateState, loadPrevBidEvent, loadPrevSaleEvent, recordAccountActivity, recordAccountPurchase, recordAccountSale, recordQuickDelisting, refreshStateListings, setPunkNoLongerForSale, updateOwnership } from './utils/helpers';
+import { addActiveListing, removeActiveListing } from './utils/listing-index';
+import { addPercentileListing, removePercentileListing } from './utils/floors';
+import { addPrivateListing, removePrivateListing } from './utils/private-listings';
+import { BIGINT_ONE, BIGINT_ZERO, CLOSE_REASON_ACCEPTED, CLOSE_REASON_REPLACED, CLOSE_REASON_SOLD, CLOSE_REASON_TRANSFERRED, CLOSE_REASON_WITHDRAWN, HOLDING_METHOD_CLAIM, HOLDING_METHOD_PURCHASE, HOLDING_METHOD_TRANSFER, HOLDING_METHOD_UNWRAP, HOLDING_METHOD_WRAP, MARKET_LISTING_BOOK_ID, SALE_TYPE_BID_ACCEPTED, SALE_TYPE_LISTING_PURCHASE, SALE_TYPE_PRIVATE_SALE, ZERO_ADDRESS } from './utils/constants';
+import { setCurrencyValues, setStatePrices, setUSDValues } from './utils/conversions';
+import { closeBidRecord, closeListingRecord, createBidRecord, createListingRecord, loadListingRecordClosedIn, reclassifyListingRecord } from './utils/records';
+import { detectWrapperProxy, getOrCreateWrapper, isWrapperAddress } from './utils/wrappers';
+import { getHoldingCostBasis } from './utils/holdings';
+import { setEventTransaction } from './utils/transactions';
+import { getSaleBuyer, recordSweepPurchase } from './utils/sweeps';
+import { detectWashTrade } from './utils/wash-detection';
+import { applyManualFlag } from './utils/flagged-transactions';
+import { addTraitListing, recordTraitSale, removeTraitListing } from './utils/traits';
+import { recordSnapshotBid, recordSnapshotDelisting, recordSnapshotListing, recordSnapshotSale, updateSnapshotFloor } from './utils/snapshots';
 
 /**
  * Handles the Assign event.
@@ -42,20 +55,23 @@ export function handleAssign(event: AssignEvent): void {
   evnt.toAccount = toAccount.id;
   evnt.value = BIGINT_ZERO;
 
-  evnt.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
 
   evnt.blockNumber = event.block.number;
   evnt.blockTimestamp = event.block.timestamp;
   evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
 
+  applyManualFlag(evnt);
   evnt.save();
 
   updateOwnership(
-    event.transaction.hash,
-    event.block.timestamp,
+    event,
     event.params.punkIndex.toString(),
     toAccount.id,
     fromAccount.id,
+    HOLDING_METHOD_CLAIM,
   );
 }
 
@@ -67,7 +83,7 @@ export function handleTransfer(event: TransferEvent): void {
   let to = event.params.to.toHexString();
   let from = event.params.from.toHexString();
 
-  let transfer = new Transfer(event.transaction.hash.toHexString());
+  let transfer = new Transfer(getGlobalId(event));
   transfer.to = to;
   transfer.from = from;
   transfer.transactionHash = event.transaction.hash;
@@ -91,24 +107,36 @@ export function handlePunkTransfer(event: PunkTransferEvent): void {
   // Token Data
   let punk = getOrCreatePunk(punkTransferTokenId);
 
+  // A wrapped punk belongs to its token holder, who may not have burned the token yet
+  let prevOwner = fromAccount.id;
+  if (isWrapperAddress(from) && punk.owner != from) prevOwner = punk.owner;
+
   // Check if punk is wrapped
-  let isWrapped = false;
-  let isUnwrapped = false;
-  if (to == WRAPPER_ADDRESS) isWrapped = true;
-  if (from == WRAPPER_ADDRESS) isUnwrapped = true;
+  let isWrapped = isWrapperAddress(to);
+  let isUnwrapped = isWrapperAddress(from);
   punk.wrapped = isWrapped;
+  punk.wrapper = isWrapped ? getOrCreateWrapper(to).id : null;
   punk.save();
 
+  if (isWrapped) detectWrapperProxy(event, punk, to, from);
+
   let newOwnerIsBidder = false;
   let bid = Bid.load(punkTransferTokenId);
   if (bid) {
     let bidderAccount = getOrCreateAccount(bid.fromAccount);
     if (bidderAccount.id.toLowerCase() == toAccount.id.toLowerCase()) {
       newOwnerIsBidder = true;
+      // The market refunds the new owner's bid to their pending withdrawals
+      creditPendingWithdrawal(bidderAccount.id, bid.value);
     }
   }
 
-  setPunkNoLongerForSale(punkTransferTokenId, newOwnerIsBidder);
+  let bidReason: string | null = null;
+  if (newOwnerIsBidder) bidReason = CLOSE_REASON_TRANSFERRED;
+
+  // The listing was already closed by PunkNoLongerForSale earlier in this transaction
+  reclassifyListingRecord(punk.lastListingRecord, event, CLOSE_REASON_TRANSFERRED);
+  setPunkNoLongerForSale(event, punkTransferTokenId, CLOSE_REASON_TRANSFERRED, bidReason);
 
   // Events
   let evntId = getGlobalId(event);
@@ -120,34 +148,55 @@ export function handlePunkTransfer(event: PunkTransferEvent): void {
   evnt.fromAccount = fromAccount.id;
   evnt.toAccount = toAccount.id;
   evnt.value = BIGINT_ZERO;
-  evnt.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
+  if (isWrapped) evnt.wrapper = to;
+  else if (isUnwrapped) evnt.wrapper = from;
 
   evnt.blockNumber = event.block.number;
   evnt.blockTimestamp = event.block.timestamp;
   evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
 
   let state = getOrCreateState(event.block.timestamp);
-  let newActiveListings = state.activeListings;
-  if (newActiveListings.indexOf(punkTransferTokenId) > -1) {
-    newActiveListings = newActiveListings.filter((id) => id != punkTransferTokenId);
-  }
+  removeActiveListing(MARKET_LISTING_BOOK_ID, punkTransferTokenId);
+  removePercentileListing(punkTransferTokenId);
+  removeTraitListing(punkTransferTokenId);
+  removePrivateListing(punkTransferTokenId);
+  refreshStateListings(state, event.block.timestamp);
 
-  state.activeListings = newActiveListings;
+  setStatePrices(state, event.block.timestamp, event.block.number);
+  state.save();
 
-  let newFloor = getFloorFromActiveListings(state);
-  state.floor = newFloor;
+  updateSnapshotFloor(event.block.timestamp, state);
 
-  state.usd = USDValue(event.block.timestamp, event.block.number);
-  state.save();
+  // Wrappers and Totals
+  if (isWrapped || isUnwrapped) {
+    let totals = getOrCreateMarketTotals();
+    if (isWrapped) {
+      let wrapper = getOrCreateWrapper(to);
+      wrapper.wrapped = wrapper.wrapped.plus(BIGINT_ONE);
+      wrapper.save();
+      totals.wrapped = totals.wrapped.plus(BIGINT_ONE);
+    }
+    if (isUnwrapped) {
+      let wrapper = getOrCreateWrapper(from);
+      wrapper.wrapped = wrapper.wrapped.minus(BIGINT_ONE);
+      wrapper.save();
+      totals.wrapped = totals.wrapped.minus(BIGINT_ONE);
+    }
+    totals.save();
+  }
 
+  applyManualFlag(evnt);
   evnt.save();
 
   updateOwnership(
-    event.transaction.hash,
-    event.block.timestamp,
+    event,
     punkTransferTokenId,
     toAccount.id,
-    fromAccount.id,
+    prevOwner,
+    isWrapped ? HOLDING_METHOD_WRAP : isUnwrapped ? HOLDING_METHOD_UNWRAP : HOLDING_METHOD_TRANSFER,
   );
 }
 
@@ -159,33 +208,66 @@ let punkBoughtTokenId: string;
 export function handlePunkBought(event: PunkBoughtEvent): void {
   punkBoughtTokenId = event.params.punkIndex.toString();
 
-  let isWash = washTrades.includes(event.transaction.hash.toHexString());
-
   let fromAccount = getOrCreateAccount(event.params.fromAddress.toHexString());
   let toAccount = getOrCreateAccount(event.params.toAddress.toHexString());
   let value = event.params.value;
 
   // Issue in te CP contract
   // https://github.com/larvalabs/cryptopunks/issues/19
+  // acceptBidForPunk is the only sale emitted with a zero toAddress
+  let isBidAccepted = toAccount.id == ZERO_ADDRESS;
+  let saleBidRecord: string | null = null;
   let bid = Bid.load(punkBoughtTokenId);
-  if (toAccount.id == ZERO_ADDRESS) {
+  if (isBidAccepted) {
     if (bid) {
       toAccount = getOrCreateAccount(bid.fromAccount);
       value = bid.value;
+      saleBidRecord = bid.record;
     }
-    setPunkNoLongerForSale(punkBoughtTokenId, true);
+    setPunkNoLongerForSale(event, punkBoughtTokenId, CLOSE_REASON_SOLD, CLOSE_REASON_ACCEPTED);
   } else if (bid && bid.fromAccount.toLowerCase() == toAccount.id.toLowerCase()) {
-    setPunkNoLongerForSale(punkBoughtTokenId, true);
+    // The market refunds the buyer's bid to their pending withdrawals
+    creditPendingWithdrawal(bid.fromAccount, bid.value);
+    setPunkNoLongerForSale(event, punkBoughtTokenId, CLOSE_REASON_SOLD, CLOSE_REASON_SOLD);
   } else {
-    setPunkNoLongerForSale(punkBoughtTokenId, false);
+    setPunkNoLongerForSale(event, punkBoughtTokenId, CLOSE_REASON_SOLD);
   }
 
+  // Listing purchases close the listing, usually in the PunkNoLongerForSale just before
+  let saleType = SALE_TYPE_BID_ACCEPTED;
+  let saleListingRecord: string | null = null;
+  if (!isBidAccepted) {
+    saleType = SALE_TYPE_LISTING_PURCHASE;
+    let listingRecord = loadListingRecordClosedIn(getOrCreatePunk(punkBoughtTokenId).lastListingRecord, event);
+    if (listingRecord) {
+      saleListingRecord = listingRecord.id;
+      if (listingRecord.isPrivate) saleType = SALE_TYPE_PRIVATE_SALE;
+    }
+  }
+
+  let soldPunk = getOrCreatePunk(punkBoughtTokenId);
+  let costBasis = getHoldingCostBasis(soldPunk);
+
+  // Wash trade heuristics run against the punk before it changes hands
+  let flagReasons = detectWashTrade(
+    event,
+    soldPunk,
+    fromAccount.id,
+    toAccount.id,
+    value,
+    getOrCreateState(event.block.timestamp).floor,
+  );
+
+  // Sale proceeds are credited to the seller's pending withdrawals
+  creditPendingWithdrawal(fromAccount.id, value);
+
   updateOwnership(
-    event.transaction.hash,
-    event.block.timestamp,
+    event,
     punkBoughtTokenId,
     toAccount.id,
     fromAccount.id,
+    HOLDING_METHOD_PURCHASE,
+    value,
   );
 
   // If the sale is zero we ignore it UNLESS it was a bid of 0
@@ -196,41 +278,92 @@ export function handlePunkBought(event: PunkBoughtEvent): void {
   let evntId = getGlobalId(event);
   let evnt = new Event(evntId);
   evnt.type = 'Sale';
+  evnt.saleType = saleType;
+  evnt.listingRecord = saleListingRecord;
+  evnt.bidRecord = saleBidRecord;
   evnt.tokenId = event.params.punkIndex;
   evnt.fromAccount = fromAccount.id;
   evnt.toAccount = toAccount.id;
   evnt.value = value;
-  evnt.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
   evnt.blockNumber = event.block.number;
   evnt.blockTimestamp = event.block.timestamp;
   evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
+  evnt.isFlagged = flagReasons.length > 0;
+  evnt.flagReasons = flagReasons;
+  applyManualFlag(evnt);
   evnt.save();
 
+  // Flagged sales are left out of volume and top sales, including the punk's own
+  let isFlagged = evnt.isFlagged;
+  let countedValue = isFlagged ? BIGINT_ZERO : value;
+
   // State
   let state = getOrCreateState(event.block.timestamp);
-  let topSale = state.topSale;
-  let prevSaleEvent = loadPrevSaleEvent(topSale);
-
-  let prevEventSaleValue: BigInt;
-  if (prevSaleEvent && prevSaleEvent.value && prevSaleEvent.value.gt(BIGINT_ZERO)) {
-    prevEventSaleValue = prevSaleEvent.value;
-    if (value.gt(prevEventSaleValue)) state.topSale = evntId;
-  } else {
-    state.topSale = evntId;
-  }
-
-  let newActiveListings = state.activeListings;
-  if (newActiveListings.indexOf(punkBoughtTokenId) > -1) {
-    newActiveListings = newActiveListings.filter((id) => id != punkBoughtTokenId);
+  if (!isFlagged) {
+    let topSale = state.topSale;
+    let prevSaleEvent = loadPrevSaleEvent(topSale);
+
+    let prevEventSaleValue: BigInt;
+    if (prevSaleEvent && prevSaleEvent.value && prevSaleEvent.value.gt(BIGINT_ZERO)) {
+      prevEventSaleValue = prevSaleEvent.value;
+      if (value.gt(prevEventSaleValue)) state.topSale = evntId;
+    } else {
+      state.topSale = evntId;
+    }
   }
-  state.activeListings = newActiveListings;
 
-  let newFloor = getFloorFromActiveListings(state);
-  state.floor = newFloor;
+  removeActiveListing(MARKET_LISTING_BOOK_ID, punkBoughtTokenId);
+  removePercentileListing(punkBoughtTokenId);
+  removeTraitListing(punkBoughtTokenId);
+  removePrivateListing(punkBoughtTokenId);
+  if (!isFlagged) recordTraitSale(punkBoughtTokenId, value, evntId);
+  refreshStateListings(state, event.block.timestamp);
   state.sales = state.sales.plus(BIGINT_ONE);
-  state.volume = state.volume.plus(value);
-  state.usd = USDValue(event.block.timestamp, event.block.number);
+  // Sales without a known ETH/USD price are left out of the dollar totals
+  let valueUsd = evnt.valueUsd;
+  let countedValueUsd: BigDecimal | null = isFlagged ? null : valueUsd;
+
+  state.volume = state.volume.plus(countedValue);
+  if (countedValueUsd) state.volumeUsd = state.volumeUsd.plus(countedValueUsd);
+  setStatePrices(state, event.block.timestamp, event.block.number);
   state.save();
+
+  recordSnapshotSale(
+    event.block.timestamp,
+    state,
+    countedValue,
+    countedValueUsd,
+    toAccount.id,
+    fromAccount.id,
+  );
+  updateSnapshotFloor(event.block.timestamp, state);
+
+  // Totals
+  let totals = getOrCreateMarketTotals();
+  let prevTopSaleEvent = loadPrevSaleEvent(totals.topSale);
+  if (!isFlagged && (!prevTopSaleEvent || value.gt(prevTopSaleEvent.value))) totals.topSale = evntId;
+  totals.sales = totals.sales.plus(BIGINT_ONE);
+  totals.volume = totals.volume.plus(countedValue);
+  if (countedValueUsd) totals.volumeUsd = totals.volumeUsd.plus(countedValueUsd);
+  totals.save();
+
+  // Accounts, crediting purchases made through a contract to the sender, as sweeps are
+  recordAccountPurchase(getSaleBuyer(evnt), value, valueUsd, event.block.number);
+  recordAccountSale(fromAccount.id, value, valueUsd, costBasis, event.block.number);
+  recordSweepPurchase(evnt);
+
+  // Punk
+  let punk = getOrCreatePunk(punkBoughtTokenId);
+  punk.sales = punk.sales.plus(BIGINT_ONE);
+  punk.lastSale = evntId;
+  punk.lastSalePrice = value;
+  punk.lastSaleUsd = valueUsd;
+  punk.lastSaleTimestamp = event.block.timestamp;
+  if (!isFlagged && value.gt(punk.topSalePrice)) punk.topSalePrice = value;
+  punk.save();
 }
 
 let punkOfferedTokenId: string;
@@ -245,28 +378,42 @@ export function handlePunkOffered(event: PunkOfferedEvent): void {
   let toAccount = getOrCreateAccount(event.params.toAddress.toHexString());
 
   // Punk
-  let punk = Punk.load(punkOfferedTokenId);
-  if (!punk) punk = new Punk(punkOfferedTokenId);
+  let punk = getOrCreatePunk(punkOfferedTokenId);
 
   // Active Listings
   let listing = Listing.load(punkOfferedTokenId);
-  if (!listing) listing = new Listing(punkOfferedTokenId);
+  if (listing) {
+    closeListingRecord(listing.record, event, CLOSE_REASON_REPLACED);
+  } else {
+    listing = new Listing(punkOfferedTokenId);
+  }
   let isPrivate = false;
   
   listing.punk = punk.id;
   listing.value = event.params.minValue;
-  listing.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Listing>(listing, event.block.timestamp, event.block.number);
   listing.fromAccount = fromAccount.id;
   listing.toAccount = toAccount.id;
 
+  fromAccount.listings = fromAccount.listings.plus(BIGINT_ONE);
+  recordAccountActivity(fromAccount, event.block.number);
+  fromAccount.save();
+
   if (toAccount.id != ZERO_ADDRESS) isPrivate = true;
   listing.isPrivate = isPrivate;
 
   listing.blockNumber = event.block.number;
   listing.blockTimestamp = event.block.timestamp;
   listing.transactionHash = event.transaction.hash;
+
+  let listingRecord = createListingRecord(getGlobalId(event), listing);
+  listing.record = listingRecord.id;
   listing.save();
 
+  punk.lastListingRecord = listingRecord.id;
+  punk.timesListed = punk.timesListed.plus(BIGINT_ONE);
+  punk.save();
+
   // Events
   let evntId = getGlobalId(event);
   let evnt = new Event(evntId);
@@ -278,34 +425,44 @@ export function handlePunkOffered(event: PunkOfferedEvent): void {
   evnt.toAccount = toAccount.id;
   evnt.value = event.params.minValue;
 
-  evnt.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
 
   evnt.blockNumber = event.block.number;
   evnt.blockTimestamp = event.block.timestamp;
   evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
+  applyManualFlag(evnt);
   evnt.save();
 
   let state = getOrCreateState(event.block.timestamp);
   let newListingState = state.listings.plus(BIGINT_ONE);
   state.listings = newListingState;
 
-  let activeListings: string[] = [];
-  if (state.activeListings) activeListings = state.activeListings;
-  activeListings.push(punkOfferedTokenId);
-
-  state.activeListings = activeListings;
-
-  let listingVal = event.params.minValue;
-  if (
-    toAccount.id != ZERO_ADDRESS && 
-    listingVal.notEqual(BIGINT_ZERO) && 
-    listingVal.lt(state.floor)
-  ) {
-    state.floor = listingVal;  
+  // Only public listings count towards the floor
+  if (isPrivate) {
+    removeActiveListing(MARKET_LISTING_BOOK_ID, punkOfferedTokenId);
+    removePercentileListing(punkOfferedTokenId);
+    removeTraitListing(punkOfferedTokenId);
+    addPrivateListing(punkOfferedTokenId, event.params.minValue);
+  } else {
+    addActiveListing(MARKET_LISTING_BOOK_ID, punkOfferedTokenId, event.params.minValue);
+    addPercentileListing(punkOfferedTokenId, event.params.minValue);
+    addTraitListing(punkOfferedTokenId, event.params.minValue);
+    removePrivateListing(punkOfferedTokenId);
   }
-  state.usd = USDValue(event.block.timestamp, event.block.number);
+  refreshStateListings(state, event.block.timestamp);
+  setStatePrices(state, event.block.timestamp, event.block.number);
 
   state.save();
+
+  recordSnapshotListing(event.block.timestamp, state);
+  updateSnapshotFloor(event.block.timestamp, state);
+
+  // Totals
+  let totals = getOrCreateMarketTotals();
+  totals.listings = totals.listings.plus(BIGINT_ONE);
+  totals.save();
 }
 
 let punkBidEnteredTokenId: string;
@@ -317,24 +474,59 @@ export function handlePunkBidEntered(event: PunkBidEnteredEvent): void {
   punkBidEnteredTokenId = event.params.punkIndex.toString();
 
   let fromAccount = getOrCreateAccount(event.params.fromAddress.toHexString());
+  fromAccount.bidsPlaced = fromAccount.bidsPlaced.plus(BIGINT_ONE);
+  recordAccountActivity(fromAccount, event.block.number);
+  fromAccount.save();
 
   // Punk
-  let punk = Punk.load(punkBidEnteredTokenId);
-  if (punk == null) punk = new Punk(punkBidEnteredTokenId);
+  let punk = getOrCreatePunk(punkBidEnteredTokenId);
 
   // Active Bid
   let bid = Bid.load(punkBidEnteredTokenId);
-  if (!bid) bid = new Bid(punkBidEnteredTokenId);
+  if (bid) {
+    // The market refunds the replaced bid to its bidder's pending withdrawals
+    creditPendingWithdrawal(bid.fromAccount, bid.value);
+    closeBidRecord(bid.record, event, CLOSE_REASON_REPLACED, getGlobalId(event));
+
+    // Outbid Event
+    let outbidEvnt = new Event(getGlobalId(event).concat('-outbid'));
+
+    outbidEvnt.type = 'Outbid';
+    outbidEvnt.tokenId = event.params.punkIndex;
+
+    outbidEvnt.fromAccount = bid.fromAccount;
+    outbidEvnt.toAccount = fromAccount.id;
+    outbidEvnt.value = bid.value;
+
+    setUSDValues<Event>(outbidEvnt, event.block.timestamp, event.block.number);
+    setCurrencyValues(outbidEvnt, event.block.timestamp, event.block.number);
+
+    outbidEvnt.blockNumber = event.block.number;
+    outbidEvnt.blockTimestamp = event.block.timestamp;
+    outbidEvnt.transactionHash = event.transaction.hash;
+    setEventTransaction(outbidEvnt, event);
+
+    applyManualFlag(outbidEvnt);
+    outbidEvnt.save();
+  } else {
+    bid = new Bid(punkBidEnteredTokenId);
+  }
   
   bid.punk = punk.id;
   bid.value = event.params.value;
-  bid.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Bid>(bid, event.block.timestamp, event.block.number);
   bid.fromAccount = fromAccount.id;
   bid.blockNumber = event.block.number;
   bid.blockTimestamp = event.block.timestamp;
   bid.transactionHash = event.transaction.hash;
+
+  let bidRecord = createBidRecord(getGlobalId(event), bid);
+  bid.record = bidRecord.id;
   bid.save();
 
+  punk.bidsReceived = punk.bidsReceived.plus(BIGINT_ONE);
+  punk.save();
+
   // Events
   let evntId = getGlobalId(event);
   let evnt = new Event(evntId);
@@ -346,12 +538,15 @@ export function handlePunkBidEntered(event: PunkBidEnteredEvent): void {
   evnt.toAccount = ZERO_ADDRESS;
   evnt.value = event.params.value;
 
-  evnt.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
 
   evnt.blockNumber = event.block.number;
   evnt.blockTimestamp = event.block.timestamp;
   evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
 
+  applyManualFlag(evnt);
   evnt.save();
 
   let state = getOrCreateState(event.block.timestamp);
@@ -366,10 +561,19 @@ export function handlePunkBidEntered(event: PunkBidEnteredEvent): void {
   } else {
     state.topBid = evntId;
   }
-  state.usd = USDValue(event.block.timestamp, event.block.number);
+  setStatePrices(state, event.block.timestamp, event.block.number);
 
   state.bids = state.bids.plus(BIGINT_ONE);
   state.save();
+
+  recordSnapshotBid(event.block.timestamp, state);
+
+  // Totals
+  let totals = getOrCreateMarketTotals();
+  let prevTopBidEvent = loadPrevBidEvent(totals.topBid);
+  if (!prevTopBidEvent || event.params.value.gt(prevTopBidEvent.value)) totals.topBid = evntId;
+  totals.bids = totals.bids.plus(BIGINT_ONE);
+  totals.save();
 }
 
 let punkBidWithdrawnTokenId: string;
@@ -381,10 +585,17 @@ export function handlePunkBidWithdrawn(event: PunkBidWithdrawnEvent): void {
   punkBidWithdrawnTokenId = event.params.punkIndex.toString();
 
   let fromAccount = getOrCreateAccount(event.params.fromAddress.toHexString());
+  fromAccount.bidsWithdrawn = fromAccount.bidsWithdrawn.plus(BIGINT_ONE);
+  recordAccountActivity(fromAccount, event.block.number);
+  fromAccount.save();
 
   // Active Bids
+  // The market sends a withdrawn bid straight back to the bidder, so there is no pending withdrawal
   let bid = Bid.load(punkBidWithdrawnTokenId);
-  if (bid) store.remove('Bid', punkBidWithdrawnTokenId);
+  if (bid) {
+    closeBidRecord(bid.record, event, CLOSE_REASON_WITHDRAWN);
+    store.remove('Bid', punkBidWithdrawnTokenId);
+  }
 
   // Events
   let evntId = getGlobalId(event);
@@ -397,12 +608,15 @@ export function handlePunkBidWithdrawn(event: PunkBidWithdrawnEvent): void {
   evnt.toAccount = ZERO_ADDRESS;
   evnt.value = event.params.value;
 
-  evnt.usd = USDValue(event.block.timestamp, event.block.number);
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
 
   evnt.blockNumber = event.block.number;
   evnt.blockTimestamp = event.block.timestamp;
   evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
 
+  applyManualFlag(evnt);
   evnt.save();
 }
 
@@ -414,15 +628,17 @@ let punkNoLongerForSaleTokenId: string;
 export function handlePunkNoLongerForSale(event: PunkNoLongerForSaleEvent): void {
   punkNoLongerForSaleTokenId = event.params.punkIndex.toString();
 
-  setPunkNoLongerForSale(punkNoLongerForSaleTokenId);
-
+  // buyPunk emits Transfer right before PunkNoLongerForSale
   let isBuy = false;
-  let transfer = Transfer.load(event.transaction.hash.toHexString());
+  let transfer = Transfer.load(getPrevGlobalId(event));
   if (transfer) {
     transfer.tokenId = punkNoLongerForSaleTokenId;
+    transfer.save();
     isBuy = true;
   }
 
+  setPunkNoLongerForSale(event, punkNoLongerForSaleTokenId, isBuy ? CLOSE_REASON_SOLD : CLOSE_REASON_WITHDRAWN);
+
   let state = getOrCreateState(event.block.timestamp);
 
   if (!isBuy) {
@@ -437,28 +653,45 @@ export function handlePunkNoLongerForSale(event: PunkNoLongerForSaleEvent): void
     evnt.toAccount = ZERO_ADDRESS;
     evnt.value = BIGINT_ZERO;
 
-    evnt.usd = USDValue(event.block.timestamp, event.block.number);
+    setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+    setCurrencyValues(evnt, event.block.timestamp, event.block.number);
 
     evnt.blockNumber = event.block.number;
     evnt.blockTimestamp = event.block.timestamp;
     evnt.transactionHash = event.transaction.hash;
+    setEventTransaction(evnt, event);
     
+    applyManualFlag(evnt);
     evnt.save();
 
     let delistings = state.delistings;
     delistings = delistings.plus(BIGINT_ONE);
     state.delistings = delistings;
-  }
 
-  let newActiveListings = state.activeListings;
-  if (state.activeListings.includes(punkNoLongerForSaleTokenId)) {
-    newActiveListings = state.activeListings.filter((id) => id != punkNoLongerForSaleTokenId);
+    recordSnapshotDelisting(event.block.timestamp, state);
+    recordQuickDelisting(getOrCreatePunk(punkNoLongerForSaleTokenId).lastListingRecord, event);
   }
-  state.activeListings = newActiveListings;
 
-  let newFloor = getFloorFromActiveListings(state);
-  state.floor = newFloor;
-  state.usd = USDValue(event.block.timestamp, event.block.number);
+  removeActiveListing(MARKET_LISTING_BOOK_ID, punkNoLongerForSaleTokenId);
+  removePercentileListing(punkNoLongerForSaleTokenId);
+  removeTraitListing(punkNoLongerForSaleTokenId);
+  removePrivateListing(punkNoLongerForSaleTokenId);
+  refreshStateListings(state, event.block.timestamp);
+  setStatePrices(state, event.block.timestamp, event.block.number);
 
   state.save();
+
+  updateSnapshotFloor(event.block.timestamp, state);
+}
+
+/**
+ * Handles calls to withdraw, which pay out the caller's pending withdrawals.
+ * @param call - The WithdrawCall object.
+ */
+export function handleWithdraw(call: WithdrawCall): void {
+  let account = getOrCreateAccount(call.from.toHexString());
+  account.withdrawn = account.withdrawn.plus(account.pendingWithdrawal);
+  account.pendingWithdrawal = BIGINT_ZERO;
+  recordAccountActivity(account, call.block.number);
+  account.save();
 }
\ No newline at end of file
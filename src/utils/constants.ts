@@ -7,20 +7,143 @@ import { BigInt } from '@graphprotocol/graph-ts';
 /** Ethereum zero address constant */
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-/** CryptoPunks Wrapper contract address (lowercase) */
-export const WRAPPER_ADDRESS = '0xb7f7f6c52f2e2fdb1963eab30438024864c313f6'.toLowerCase();
+/** WrappedPunks contract address (lowercase) */
+export const WRAPPED_PUNKS_ADDRESS = '0xb7f7f6c52f2e2fdb1963eab30438024864c313f6'.toLowerCase();
 
-/** Block number when the Chainlink ETH/USD price feed was deployed */
+/** CryptoPunks721 wrapper contract address (lowercase) */
+export const CRYPTOPUNKS_721_ADDRESS = '0x000000000000003607fce1ac9e043a86675c5c2f'.toLowerCase();
+
+/** Block number when the Chainlink ETH/USD proxy, the first of the EAC proxies, was deployed */
 export const EACAggregatorProxyStartBlock = BigInt.fromI32(10606501);
 
+/** Chainlink ETH/USD price pair */
+export const PRICE_PAIR_ETH_USD = 'ETH/USD';
+
+/** Chainlink EUR/USD price pair */
+export const PRICE_PAIR_EUR_USD = 'EUR/USD';
+
+/** Chainlink GBP/USD price pair */
+export const PRICE_PAIR_GBP_USD = 'GBP/USD';
+
+/** Chainlink JPY/USD price pair */
+export const PRICE_PAIR_JPY_USD = 'JPY/USD';
+
+/** Chainlink BTC/USD price pair */
+export const PRICE_PAIR_BTC_USD = 'BTC/USD';
+
+/** Minimum interval in seconds between proxy reads while a feed's latest round is stale */
+export const PRICE_FEED_RECHECK_INTERVAL = BigInt.fromI32(60 * 60);
+
+/** ID of the singleton MarketTotals entity */
+export const MARKET_TOTALS_ID = 'all';
+
+/** ID of the ListingBook indexing every active listing */
+export const MARKET_LISTING_BOOK_ID = 'market';
+
+/** ID of the ListingBook holding the cheapest FLOOR_PERCENTILE percent of listings, with negated values */
+export const PERCENTILE_LOW_BOOK_ID = 'market-percentile-low';
+
+/** ID of the ListingBook holding the listings above the percentile */
+export const PERCENTILE_HIGH_BOOK_ID = 'market-percentile-high';
+
+/** ID of the singleton PrivateListingMarket entity */
+export const PRIVATE_LISTING_MARKET_ID = 'private';
+
 /** BigInt constant for zero */
 export let BIGINT_ZERO = BigInt.fromI32(0);
 
 /** BigInt constant for one */
 export let BIGINT_ONE = BigInt.fromI32(1);
 
-/** Array of known wash trade transaction hashes to filter out */
-export let washTrades = [
-  '0x92488a00dfa0746c300c66a716e6cc11ba9c0f9d40d8c58e792cc7fcebf432d0',
-  '0xa4fa9c0976e550a27184c1ffd17f55f770c9afa429b7cd8495004302a82722c5'
-];
\ No newline at end of file
+/** Trait category of the punk type (Alien, Ape, Zombie, Male, Female) */
+export const TRAIT_CATEGORY_TYPE = 'Type';
+
+/** Listing or bid closed by a sale of the punk */
+export const CLOSE_REASON_SOLD = 'Sold';
+
+/** Bid closed by the owner accepting it */
+export const CLOSE_REASON_ACCEPTED = 'Accepted';
+
+/** Listing or bid withdrawn by its creator */
+export const CLOSE_REASON_WITHDRAWN = 'Withdrawn';
+
+/** Listing or bid cleared by a transfer of the punk */
+export const CLOSE_REASON_TRANSFERRED = 'Transferred';
+
+/** Listing or bid superseded by a newer one on the same punk */
+export const CLOSE_REASON_REPLACED = 'Replaced';
+
+/** Sale made by the owner accepting a bid */
+export const SALE_TYPE_BID_ACCEPTED = 'BidAccepted';
+
+/** Sale made by a buyer taking a public listing */
+export const SALE_TYPE_LISTING_PURCHASE = 'ListingPurchase';
+
+/** Sale made by a buyer taking a listing offered only to them */
+export const SALE_TYPE_PRIVATE_SALE = 'PrivateSale';
+
+/** Punk claimed from the market contract for free */
+export const HOLDING_METHOD_CLAIM = 'Claim';
+
+/** Punk bought through the market; the seller's side of it is a Sale */
+export const HOLDING_METHOD_PURCHASE = 'Purchase';
+
+/** Punk sold through the market */
+export const HOLDING_METHOD_SALE = 'Sale';
+
+/** Punk moved without payment */
+export const HOLDING_METHOD_TRANSFER = 'Transfer';
+
+/** Punk moved into a wrapper or minted as a wrapped token */
+export const HOLDING_METHOD_WRAP = 'Wrap';
+
+/** Punk moved out of a wrapper or its wrapped token burned */
+export const HOLDING_METHOD_UNWRAP = 'Unwrap';
+
+/** Bid that is still open */
+export const BID_STATUS_ACTIVE = 'Active';
+
+/** Bid replaced by a higher bid and refunded */
+export const BID_STATUS_OUTBID = 'Outbid';
+
+/** Bid withdrawn and refunded */
+export const BID_STATUS_WITHDRAWN = 'Withdrawn';
+
+/** Bid accepted by the owner */
+export const BID_STATUS_ACCEPTED = 'Accepted';
+
+/** Bid refunded because the bidder bought or received the punk */
+export const BID_STATUS_REFUNDED = 'Refunded';
+
+/** Sale back to the account the seller got the punk from shortly before, by sale or transfer */
+export const FLAG_REASON_ROUND_TRIP = 'RoundTrip';
+
+/** Sale far above the floor of a punk the seller acquired shortly before */
+export const FLAG_REASON_ABOVE_FLOOR = 'AboveFloor';
+
+/** Seconds within which trading a punk back and forth is treated as a wash (30 days) */
+export let WASH_ROUND_TRIP_WINDOW = BigInt.fromI32(30 * 24 * 60 * 60);
+
+/** Seconds within which reselling far above the floor is treated as a wash (1 day) */
+export let WASH_ABOVE_FLOOR_WINDOW = BigInt.fromI32(24 * 60 * 60);
+
+/** Multiple of the floor above which a quick resale is treated as a wash */
+export let WASH_ABOVE_FLOOR_MULTIPLE = BigInt.fromI32(10);
+
+/** Minimum number of active listings for the floors to be recomputed; below it the previous day's floors are kept */
+export const MIN_FLOOR_LISTINGS = 5;
+
+/** Number of cheapest listings averaged for State.floorAverage */
+export const FLOOR_AVERAGE_LISTINGS = 10;
+
+/** Percentile of active listings used for State.floorPercentile */
+export const FLOOR_PERCENTILE = 5;
+
+/** Maximum number of cheapest listings checked for State.filteredFloor */
+export const FILTERED_FLOOR_MAX_LISTINGS = 50;
+
+/** Seconds within which withdrawing a listing counts as a quick delisting (10 minutes) */
+export let QUICK_DELIST_WINDOW = BigInt.fromI32(10 * 60);
+
+/** Seconds during which an account's quick delisting keeps its listings out of State.filteredFloor (30 days) */
+export let QUICK_DELIST_LOOKBACK = BigInt.fromI32(30 * 24 * 60 * 60);
@@ -1,2263 +1,207 @@
 /**
  * @file conversions.ts
- * @description This file contains utility functions for converting and retrieving ETH/USD price data.
+ * @description This file contains utility functions for converting and retrieving ETH prices in USD and other currencies.
  */
 
 import { BigDecimal, BigInt } from '@graphprotocol/graph-ts';
 
-import { EACAggregatorProxyStartBlock } from './constants';
-import { getLatestPrice } from './price-oracle';
+import { Event, State } from '../../generated/schema';
 
-/**
- * Represents a single data point for ETH/USD price.
- */
-export class DataPoint {
-  timestamp: BigInt;
-  value: number;
-
-  constructor(timestamp: string, value: number) {
-    this.timestamp = BigInt.fromString(timestamp);
-    this.value = value;
-  }
-}
+import { PRICE_PAIR_BTC_USD, PRICE_PAIR_ETH_USD, PRICE_PAIR_EUR_USD, PRICE_PAIR_GBP_USD, PRICE_PAIR_JPY_USD } from './constants';
+import { ChainlinkFeed, getChainlinkFeed, getChainlinkPrice } from './price-oracle';
 
 /**
- * Array of historical ETH/USD price data points.
- */
-export let dataPoints: DataPoint[] = [
-  new DataPoint('1498176000', 331.9138051489657),
-  new DataPoint('1498262400', 310.05462840596994),
-  new DataPoint('1498348800', 288.04702626534885),
-  new DataPoint('1498435200', 258.91946273454556),
-  new DataPoint('1498521600', 280.8130146788337),
-  new DataPoint('1498608000', 317.2936774724324),
-  new DataPoint('1498694400', 300.18215256198584),
-  new DataPoint('1498780800', 284.69108328848546),
-  new DataPoint('1498867200', 262.47807335859795),
-  new DataPoint('1498953600', 286.1336070099866),
-  new DataPoint('1499040000', 278.5971953381099),
-  new DataPoint('1499126400', 269.7366305781692),
-  new DataPoint('1499212800', 265.9369454655199),
-  new DataPoint('1499299200', 267.4697236476019),
-  new DataPoint('1499385600', 241.4766205298395),
-  new DataPoint('1499472000', 246.21497097327446),
-  new DataPoint('1499558400', 238.75431849081662),
-  new DataPoint('1499644800', 210.52819727984127),
-  new DataPoint('1499731200', 194.33493649003975),
-  new DataPoint('1499817600', 222.13885617231483),
-  new DataPoint('1499904000', 206.41325042813503),
-  new DataPoint('1499990400', 197.96945236247697),
-  new DataPoint('1500076800', 171.77744094493255),
-  new DataPoint('1500163200', 156.46899162898947),
-  new DataPoint('1500249600', 188.3527773486568),
-  new DataPoint('1500336000', 228.50328003667275),
-  new DataPoint('1500422400', 199.59051553264698),
-  new DataPoint('1500508800', 223.4613483872583),
-  new DataPoint('1500595200', 217.08647395834424),
-  new DataPoint('1500681600', 231.14352894295098),
-  new DataPoint('1500768000', 226.7185992848529),
-  new DataPoint('1500854400', 224.91340709342114),
-  new DataPoint('1500940800', 206.81050478775018),
-  new DataPoint('1501027200', 200.3285558009793),
-  new DataPoint('1501113600', 203.18932178158303),
-  new DataPoint('1501200000', 192.58568390577597),
-  new DataPoint('1501286400', 205.51111919711502),
-  new DataPoint('1501372800', 197.19896347978235),
-  new DataPoint('1501459200', 203.28719634179097),
-  new DataPoint('1501545600', 227.08056705038587),
-  new DataPoint('1501632000', 219.05792926762416),
-  new DataPoint('1501718400', 224.86795657659746),
-  new DataPoint('1501804800', 221.67495953018923),
-  new DataPoint('1501891200', 253.15566612330053),
-  new DataPoint('1501977600', 263.2220861638244),
-  new DataPoint('1502064000', 268.49662903477497),
-  new DataPoint('1502150400', 295.14709831672786),
-  new DataPoint('1502236800', 297.0696048197405),
-  new DataPoint('1502323200', 296.7767240757822),
-  new DataPoint('1502409600', 306.826433219032),
-  new DataPoint('1502496000', 308.625531335255),
-  new DataPoint('1502582400', 297.15980274719976),
-  new DataPoint('1502668800', 296.3972895244633),
-  new DataPoint('1502755200', 288.4507671723357),
-  new DataPoint('1502841600', 300.0393294082391),
-  new DataPoint('1502928000', 300.5703437604035),
-  new DataPoint('1503014400', 296.114635373622),
-  new DataPoint('1503100800', 296.6220895183796),
-  new DataPoint('1503187200', 295.17157732771335),
-  new DataPoint('1503273600', 322.2012201364436),
-  new DataPoint('1503360000', 312.1744705574116),
-  new DataPoint('1503446400', 316.7889202107443),
-  new DataPoint('1503532800', 321.7852984049241),
-  new DataPoint('1503619200', 329.0252809929819),
-  new DataPoint('1503705600', 329.86578262442157),
-  new DataPoint('1503792000', 343.34133712814116),
-  new DataPoint('1503878400', 344.2011314209417),
-  new DataPoint('1503964800', 366.809589912788),
-  new DataPoint('1504051200', 378.90633073469184),
-  new DataPoint('1504137600', 382.9344507545728),
-  new DataPoint('1504224000', 386.3430570009356),
-  new DataPoint('1504310400', 346.3987754868897),
-  new DataPoint('1504396800', 349.92924044114534),
-  new DataPoint('1504483200', 299.7173318855491),
-  new DataPoint('1504569600', 318.9728041158723),
-  new DataPoint('1504656000', 333.20632999273016),
-  new DataPoint('1504742400', 329.4156625176296),
-  new DataPoint('1504828800', 304.47510826802426),
-  new DataPoint('1504915200', 299.6944444705654),
-  new DataPoint('1505001600', 292.7796567856866),
-  new DataPoint('1505088000', 296.4753988432914),
-  new DataPoint('1505174400', 290.58653195906925),
-  new DataPoint('1505260800', 277.33365793127047),
-  new DataPoint('1505347200', 214.3117136334975),
-  new DataPoint('1505433600', 246.9218572871298),
-  new DataPoint('1505520000', 244.80561175288247),
-  new DataPoint('1505606400', 249.66654597502836),
-  new DataPoint('1505692800', 287.96109568877347),
-  new DataPoint('1505779200', 280.4456323420793),
-  new DataPoint('1505865600', 279.4176492108516),
-  new DataPoint('1505952000', 257.465074465559),
-  new DataPoint('1506038400', 263.46977368373445),
-  new DataPoint('1506124800', 283.22215899335055),
-  new DataPoint('1506211200', 280.68104473460187),
-  new DataPoint('1506297600', 288.0857009417575),
-  new DataPoint('1506384000', 283.9294530726591),
-  new DataPoint('1506470400', 302.1518453516756),
-  new DataPoint('1506556800', 294.3138380117381),
-  new DataPoint('1506643200', 288.11459689868053),
-  new DataPoint('1506729600', 297.2689355700251),
-  new DataPoint('1506816000', 299.6748890236153),
-  new DataPoint('1506902400', 295.8400297394862),
-  new DataPoint('1506988800', 292.2107206992577),
-  new DataPoint('1507075200', 293.0357027858311),
-  new DataPoint('1507161600', 293.71934612048636),
-  new DataPoint('1507248000', 307.7089805559562),
-  new DataPoint('1507334400', 309.5982491240284),
-  new DataPoint('1507420800', 307.05813687389934),
-  new DataPoint('1507507200', 295.901045084102),
-  new DataPoint('1507593600', 299.9170113647283),
-  new DataPoint('1507680000', 303.2474665353709),
-  new DataPoint('1507766400', 302.0199976805083),
-  new DataPoint('1507852800', 337.9526134340301),
-  new DataPoint('1507939200', 335.33824482981413),
-  new DataPoint('1508025600', 335.3913549863649),
-  new DataPoint('1508112000', 331.967214731027),
-  new DataPoint('1508198400', 317.898212514702),
-  new DataPoint('1508284800', 314.456554240651),
-  new DataPoint('1508371200', 308.4746839282341),
-  new DataPoint('1508457600', 302.35649692557024),
-  new DataPoint('1508544000', 300.69384596228315),
-  new DataPoint('1508630400', 295.4882479105146),
-  new DataPoint('1508716800', 289.4140251237576),
-  new DataPoint('1508803200', 298.75573430773346),
-  new DataPoint('1508889600', 298.4839668215046),
-  new DataPoint('1508976000', 295.7078546189935),
-  new DataPoint('1509062400', 297.9291296930045),
-  new DataPoint('1509148800', 296.4649529071602),
-  new DataPoint('1509235200', 303.74113040048763),
-  new DataPoint('1509321600', 306.2494615338919),
-  new DataPoint('1509408000', 303.54211702851427),
-  new DataPoint('1509494400', 292.33053872865435),
-  new DataPoint('1509580800', 287.0696687458828),
-  new DataPoint('1509667200', 305.8432726789198),
-  new DataPoint('1509753600', 299.9549103522952),
-  new DataPoint('1509840000', 297.5173231052644),
-  new DataPoint('1509926400', 301.370794552855),
-  new DataPoint('1510012800', 295.23511338265723),
-  new DataPoint('1510099200', 308.9339866357258),
-  new DataPoint('1510185600', 322.32952048358885),
-  new DataPoint('1510272000', 301.3549333527746),
-  new DataPoint('1510358400', 316.2583419604271),
-  new DataPoint('1510444800', 314.1661277072687),
-  new DataPoint('1510531200', 315.34395637188766),
-  new DataPoint('1510617600', 338.937627406501),
-  new DataPoint('1510704000', 334.286932546348),
-  new DataPoint('1510790400', 330.021315646911),
-  new DataPoint('1510876800', 333.351255037181),
-  new DataPoint('1510963200', 348.74721545667),
-  new DataPoint('1511049600', 353.43572964676),
-  new DataPoint('1511136000', 365.786815977961),
-  new DataPoint('1511222400', 361.055822571048),
-  new DataPoint('1511308800', 379.409057274538),
-  new DataPoint('1511395200', 412.557611501513),
-  new DataPoint('1511481600', 475.002014978137),
-  new DataPoint('1511568000', 467.446390045639),
-  new DataPoint('1511654400', 468.998099373249),
-  new DataPoint('1511740800', 484.362624150733),
-  new DataPoint('1511827200', 474.182894748523),
-  new DataPoint('1511913600', 428.345443336342),
-  new DataPoint('1512000000', 454.160981519821),
-  new DataPoint('1512086400', 469.863479570669),
-  new DataPoint('1512172800', 469.857050536754),
-  new DataPoint('1512259200', 461.880481908051),
-  new DataPoint('1512345600', 472.252735495896),
-  new DataPoint('1512432000', 467.016662982671),
-  new DataPoint('1512518400', 448.328222164605),
-  new DataPoint('1512604800', 451.825581860168),
-  new DataPoint('1512691200', 467.881662612901),
-  new DataPoint('1512777600', 482.035518858509),
-  new DataPoint('1512864000', 446.691058078548),
-  new DataPoint('1512950400', 509.000876237775),
-  new DataPoint('1513036800', 661.841332287634),
-  new DataPoint('1513123200', 709.883193572531),
-  new DataPoint('1513209600', 704.621843737326),
-  new DataPoint('1513296000', 693.09706413276),
-  new DataPoint('1513382400', 702.244612799479),
-  new DataPoint('1513468800', 728.700471211578),
-  new DataPoint('1513555200', 798.115404033608),
-  new DataPoint('1513641600', 829.989201766042),
-  new DataPoint('1513728000', 813.403602277568),
-  new DataPoint('1513814400', 812.885159103535),
-  new DataPoint('1513900800', 669.276492289395),
-  new DataPoint('1513987200', 715.719068265809),
-  new DataPoint('1514073600', 686.208308919806),
-  new DataPoint('1514160000', 733.902545910265),
-  new DataPoint('1514246400', 774.110198124999),
-  new DataPoint('1514332800', 764.967062014162),
-  new DataPoint('1514419200', 736.840047017461),
-  new DataPoint('1514505600', 755.343641318154),
-  new DataPoint('1514592000', 736.909191519636),
-  new DataPoint('1514678400', 774.696255457107),
-  new DataPoint('1514764800', 776.080330355968),
-  new DataPoint('1514851200', 876.890258814416),
-  new DataPoint('1514937600', 963.0557506903511),
-  new DataPoint('1515024000', 978.416104183522),
-  new DataPoint('1515110400', 1004.8949722625625),
-  new DataPoint('1515196800', 1052.02336010703),
-  new DataPoint('1515283200', 1137.6549188901813),
-  new DataPoint('1515369600', 1184.92393027798),
-  new DataPoint('1515456000', 1361.4396682787146),
-  new DataPoint('1515542400', 1345.5876017375906),
-  new DataPoint('1515628800', 1181.6514100305303),
-  new DataPoint('1515715200', 1315.6187580839762),
-  new DataPoint('1515801600', 1448.1800861342022),
-  new DataPoint('1515888000', 1410.0002145085193),
-  new DataPoint('1515974400', 1329.6713965043375),
-  new DataPoint('1516060800', 1068.6004106894156),
-  new DataPoint('1516147200', 1022.3652131699663),
-  new DataPoint('1516233600', 1036.072312788025),
-  new DataPoint('1516320000', 1046.8985973958734),
-  new DataPoint('1516406400', 1172.9172062239459),
-  new DataPoint('1516492800', 1053.6332024800395),
-  new DataPoint('1516579200', 1000.3871327788332),
-  new DataPoint('1516665600', 991.665320638703),
-  new DataPoint('1516752000', 1056.8792325682198),
-  new DataPoint('1516838400', 1059.3154960264808),
-  new DataPoint('1516924800', 1048.7989058434846),
-  new DataPoint('1517011200', 1095.7825142892807),
-  new DataPoint('1517097600', 1237.3241758467964),
-  new DataPoint('1517184000', 1169.6342569193446),
-  new DataPoint('1517270711', 1161.9086430994253),
-  new DataPoint('1517356800', 1058.0960529662955),
-  new DataPoint('1517443200', 1106.1381723552724),
-  new DataPoint('1517529600', 1021.2693786534147),
-  new DataPoint('1517616000', 914.6388425021536),
-  new DataPoint('1517702400', 941.8032295185238),
-  new DataPoint('1517788800', 834.8891703333355),
-  new DataPoint('1517875200', 684.3133397266745),
-  new DataPoint('1517961600', 785.7389155049871),
-  new DataPoint('1518048323', 751.8878893661607),
-  new DataPoint('1518134400', 807.8227505154956),
-  new DataPoint('1518220800', 871.3268829432668),
-  new DataPoint('1518307200', 854.3498784217315),
-  new DataPoint('1518393600', 817.2905243571003),
-  new DataPoint('1518480000', 862.7487725902944),
-  new DataPoint('1518566400', 833.7791837295838),
-  new DataPoint('1518652800', 915.0765430188819),
-  new DataPoint('1518739200', 928.2935214045194),
-  new DataPoint('1518825600', 934.6767104527537),
-  new DataPoint('1518912000', 964.2765079107337),
-  new DataPoint('1518998400', 915.0920469360246),
-  new DataPoint('1519084800', 928.2902425457683),
-  new DataPoint('1519171200', 902.9690554385094),
-  new DataPoint('1519257600', 809.1296597083212),
-  new DataPoint('1519344000', 812.4468626177468),
-  new DataPoint('1519430400', 864.6697536212578),
-  new DataPoint('1519516800', 828.7233989886703),
-  new DataPoint('1519603200', 842.6280247519165),
-  new DataPoint('1519689600', 863.6502752378826),
-  new DataPoint('1519776000', 869.2632438249697),
-  new DataPoint('1519862400', 846.3652117960792),
-  new DataPoint('1519948800', 855.6787797305122),
-  new DataPoint('1520035200', 850.4429895810156),
-  new DataPoint('1520121600', 844.2552535175925),
-  new DataPoint('1520208000', 843.7565763098702),
-  new DataPoint('1520294400', 840.1509954642488),
-  new DataPoint('1520380800', 808.4491332246333),
-  new DataPoint('1520467200', 752.5931712474129),
-  new DataPoint('1520553600', 699.1898984866136),
-  new DataPoint('1520640000', 710.8916532666208),
-  new DataPoint('1520726400', 684.934340074043),
-  new DataPoint('1520812800', 713.1953300017516),
-  new DataPoint('1520899200', 695.3142030222126),
-  new DataPoint('1520985600', 684.6415843660401),
-  new DataPoint('1521072000', 608.3931488499501),
-  new DataPoint('1521158400', 612.4435397197692),
-  new DataPoint('1521244800', 607.879487479319),
-  new DataPoint('1521331200', 560.1094330840288),
-  new DataPoint('1521417600', 538.6905900543026),
-  new DataPoint('1521504000', 555.0775482373977),
-  new DataPoint('1521590400', 554.2098259834895),
-  new DataPoint('1521676800', 561.1465342247278),
-  new DataPoint('1521763200', 537.7059724380829),
-  new DataPoint('1521849600', 538.109029163154),
-  new DataPoint('1521936000', 519.4855998398031),
-  new DataPoint('1522022400', 519.3780445915389),
-  new DataPoint('1522108800', 487.5396120553992),
-  new DataPoint('1522195200', 449.05225249207564),
-  new DataPoint('1522281600', 443.9491009578748),
-  new DataPoint('1522368000', 385.32709566886405),
-  new DataPoint('1522454400', 395.32626329061816),
-  new DataPoint('1522540800', 395.79638095782116),
-  new DataPoint('1522627200', 379.1235134110076),
-  new DataPoint('1522713600', 384.8259822881638),
-  new DataPoint('1522800000', 415.7162339703384),
-  new DataPoint('1522886400', 380.28195959120734),
-  new DataPoint('1522972800', 384.46448544618835),
-  new DataPoint('1523059200', 369.9138976693199),
-  new DataPoint('1523145600', 383.44636088273523),
-  new DataPoint('1523232000', 396.98175550697044),
-  new DataPoint('1523318400', 398.77335502107474),
-  new DataPoint('1523404800', 412.6893456266917),
-  new DataPoint('1523491200', 427.3849460078481),
-  new DataPoint('1523577600', 488.60548934434905),
-  new DataPoint('1523664000', 488.99218126708564),
-  new DataPoint('1523750400', 495.11291363236046),
-  new DataPoint('1523836800', 525.5274445398754),
-  new DataPoint('1523923200', 507.11031309582995),
-  new DataPoint('1524009600', 498.46700764950907),
-  new DataPoint('1524096000', 517.3740431959737),
-  new DataPoint('1524182400', 566.3920838512778),
-  new DataPoint('1524268800', 590.27192246768),
-  new DataPoint('1524355200', 600.2596767733208),
-  new DataPoint('1524441600', 617.2024078855728),
-  new DataPoint('1524528000', 636.3671638965957),
-  new DataPoint('1524614400', 705.0276448443027),
-  new DataPoint('1524700800', 613.7267252906634),
-  new DataPoint('1524787200', 657.0577934851548),
-  new DataPoint('1524873600', 641.9936056225328),
-  new DataPoint('1524960000', 672.5969368274542),
-  new DataPoint('1525046400', 680.1204953886593),
-  new DataPoint('1525132800', 662.732735837356),
-  new DataPoint('1525219200', 665.2257861413076),
-  new DataPoint('1525305600', 676.5525639388837),
-  new DataPoint('1525392000', 781.4257804747286),
-  new DataPoint('1525478400', 777.9076470179848),
-  new DataPoint('1525564800', 807.0673291637275),
-  new DataPoint('1525651200', 785.89274351052),
-  new DataPoint('1525737600', 748.8131413938073),
-  new DataPoint('1525824000', 744.3248257193555),
-  new DataPoint('1525910400', 743.6398157399032),
-  new DataPoint('1525996800', 717.4128743633592),
-  new DataPoint('1526083200', 675.2917525022057),
-  new DataPoint('1526169600', 683.1702676131072),
-  new DataPoint('1526256000', 726.8719105255797),
-  new DataPoint('1526342400', 727.8026816427881),
-  new DataPoint('1526428800', 703.1556814584169),
-  new DataPoint('1526515200', 702.4531187046043),
-  new DataPoint('1526601600', 665.6275313370153),
-  new DataPoint('1526688000', 686.2132687257347),
-  new DataPoint('1526774400', 685.8467539789947),
-  new DataPoint('1526860800', 703.8146666492306),
-  new DataPoint('1526947200', 688.9132212295281),
-  new DataPoint('1527033600', 641.1003511423173),
-  new DataPoint('1527120000', 581.2411880572671),
-  new DataPoint('1527206400', 597.848771866914),
-  new DataPoint('1527292800', 582.2793862832264),
-  new DataPoint('1527379200', 580.4834597869499),
-  new DataPoint('1527465600', 565.9260648024518),
-  new DataPoint('1527552000', 511.61588041076885),
-  new DataPoint('1527638400', 561.7406614509548),
-  new DataPoint('1527724800', 555.3491509790109),
-  new DataPoint('1527811200', 571.7271134994469),
-  new DataPoint('1527897600', 573.8335504842785),
-  new DataPoint('1527984000', 583.1316392150303),
-  new DataPoint('1528070400', 609.2946747342367),
-  new DataPoint('1528156800', 586.5759760467295),
-  new DataPoint('1528243200', 600.6782790386933),
-  new DataPoint('1528329600', 598.2160984640701),
-  new DataPoint('1528416000', 595.1261406729993),
-  new DataPoint('1528502400', 590.4981451663734),
-  new DataPoint('1528588800', 581.1212496803587),
-  new DataPoint('1528675200', 522.9980386707371),
-  new DataPoint('1528761600', 529.1308297528115),
-  new DataPoint('1528848000', 495.0763558611063),
-  new DataPoint('1528934400', 474.85911303649493),
-  new DataPoint('1529020800', 516.6441703707438),
-  new DataPoint('1529107200', 485.4328365159148),
-  new DataPoint('1529193600', 493.0678580653148),
-  new DataPoint('1529280000', 491.40027597923427),
-  new DataPoint('1529366400', 512.4288524669856),
-  new DataPoint('1529452800', 532.0039133610575),
-  new DataPoint('1529539200', 529.7630465685196),
-  new DataPoint('1529625600', 520.6671645141439),
-  new DataPoint('1529712000', 463.94082865220423),
-  new DataPoint('1529798400', 472.9772647615346),
-  new DataPoint('1529884800', 455.71843063066746),
-  new DataPoint('1529971200', 458.9258012406738),
-  new DataPoint('1530057600', 430.60178441047594),
-  new DataPoint('1530144000', 437.8765374730084),
-  new DataPoint('1530230400', 420.86212416397933),
-  new DataPoint('1530316800', 432.50722049091496),
-  new DataPoint('1530403200', 449.43004507185094),
-  new DataPoint('1530489600', 447.6805505735615),
-  new DataPoint('1530576000', 472.31165843777023),
-  new DataPoint('1530662400', 459.6987235407423),
-  new DataPoint('1530748800', 463.22220830490755),
-  new DataPoint('1530835200', 466.87948010075564),
-  new DataPoint('1530921600', 467.5901144927255),
-  new DataPoint('1531008000', 481.523823511904),
-  new DataPoint('1531094400', 483.8040307751051),
-  new DataPoint('1531180800', 469.7022293732207),
-  new DataPoint('1531267200', 431.76445446277353),
-  new DataPoint('1531353600', 443.0254304264658),
-  new DataPoint('1531440000', 427.79224436391297),
-  new DataPoint('1531526400', 431.266939712935),
-  new DataPoint('1531612800', 431.78456841825795),
-  new DataPoint('1531699200', 446.60952086822346),
-  new DataPoint('1531785600', 478.20850696097756),
-  new DataPoint('1531872000', 497.1775460849197),
-  new DataPoint('1531958400', 475.9901579076109),
-  new DataPoint('1532044800', 464.78994267592014),
-  new DataPoint('1532131200', 447.2032909319223),
-  new DataPoint('1532217600', 458.0790283587359),
-  new DataPoint('1532304000', 455.5332019326154),
-  new DataPoint('1532390400', 447.92137912561867),
-  new DataPoint('1532476800', 477.2092716797165),
-  new DataPoint('1532563200', 468.73749232171497),
-  new DataPoint('1532649600', 460.8693339260698),
-  new DataPoint('1532736000', 467.9579265520383),
-  new DataPoint('1532822400', 465.8991552657435),
-  new DataPoint('1532908800', 466.41922911559277),
-  new DataPoint('1532995200', 458.080921209812),
-  new DataPoint('1533081600', 432.3501179219696),
-  new DataPoint('1533168000', 417.27540676628155),
-  new DataPoint('1533254400', 410.9251331069581),
-  new DataPoint('1533340800', 417.35539322792266),
-  new DataPoint('1533427200', 406.8839911959127),
-  new DataPoint('1533513600', 409.16493540460897),
-  new DataPoint('1533600000', 404.81719789129863),
-  new DataPoint('1533686400', 377.75090114785144),
-  new DataPoint('1533772800', 353.6461229266765),
-  new DataPoint('1533859200', 363.6851798621928),
-  new DataPoint('1533945600', 332.49243311549486),
-  new DataPoint('1534032000', 317.3144774285816),
-  new DataPoint('1534118400', 317.9561130787788),
-  new DataPoint('1534204800', 284.9586646577589),
-  new DataPoint('1534291200', 277.7460166184284),
-  new DataPoint('1534377600', 281.1411931356025),
-  new DataPoint('1534464000', 286.3202214369417),
-  new DataPoint('1534550400', 314.79325272659554),
-  new DataPoint('1534636800', 293.17699177790365),
-  new DataPoint('1534723200', 299.4351225630472),
-  new DataPoint('1534809600', 271.06155217805997),
-  new DataPoint('1534896000', 280.3747171450871),
-  new DataPoint('1534982400', 269.2483994291051),
-  new DataPoint('1535068800', 275.80838507029057),
-  new DataPoint('1535155200', 281.7346420014112),
-  new DataPoint('1535241600', 277.96671056981506),
-  new DataPoint('1535328000', 273.50341418810274),
-  new DataPoint('1535414400', 286.9611037603499),
-  new DataPoint('1535500800', 296.29612763685776),
-  new DataPoint('1535587200', 288.5053605724647),
-  new DataPoint('1535673600', 285.1028726269231),
-  new DataPoint('1535760000', 282.22317870221497),
-  new DataPoint('1535846400', 295.6461617616964),
-  new DataPoint('1535932800', 294.5856884801363),
-  new DataPoint('1536019200', 288.85282563770716),
-  new DataPoint('1536105600', 285.4857566471215),
-  new DataPoint('1536192000', 232.59576871683151),
-  new DataPoint('1536278400', 229.37495804862965),
-  new DataPoint('1536364800', 215.43223745188737),
-  new DataPoint('1536451200', 196.8653868522827),
-  new DataPoint('1536537600', 195.87733831990175),
-  new DataPoint('1536624000', 196.3615326706261),
-  new DataPoint('1536710400', 184.08223182704117),
-  new DataPoint('1536796800', 182.94557625329006),
-  new DataPoint('1536883200', 211.82672748652598),
-  new DataPoint('1536969600', 211.3835617204549),
-  new DataPoint('1537056000', 223.05308230390335),
-  new DataPoint('1537142400', 220.1415794346937),
-  new DataPoint('1537228800', 196.5766097002653),
-  new DataPoint('1537315200', 210.15069647518163),
-  new DataPoint('1537401600', 209.1425267776257),
-  new DataPoint('1537488000', 224.38097767293752),
-  new DataPoint('1537574400', 247.41001789452824),
-  new DataPoint('1537660800', 241.8437317592413),
-  new DataPoint('1537747200', 244.7847954629194),
-  new DataPoint('1537833600', 228.34091150907454),
-  new DataPoint('1537920000', 219.50434375691938),
-  new DataPoint('1538006400', 214.9793802543281),
-  new DataPoint('1538092800', 229.22195926025518),
-  new DataPoint('1538179200', 222.229239761749),
-  new DataPoint('1538265600', 231.73587329828854),
-  new DataPoint('1538352000', 232.78138524562493),
-  new DataPoint('1538438400', 231.1436846227436),
-  new DataPoint('1538524800', 225.79485382934473),
-  new DataPoint('1538611200', 220.47446029228064),
-  new DataPoint('1538697600', 222.19584779064576),
-  new DataPoint('1538784000', 228.03607024893918),
-  new DataPoint('1538870400', 225.06880731767052),
-  new DataPoint('1538956800', 225.65834864130284),
-  new DataPoint('1539043200', 229.52461502629828),
-  new DataPoint('1539129600', 227.9689077917784),
-  new DataPoint('1539216000', 225.66201617746165),
-  new DataPoint('1539302400', 192.0010841477226),
-  new DataPoint('1539388800', 197.06801594741614),
-  new DataPoint('1539475200', 201.05349968429928),
-  new DataPoint('1539561600', 196.3186984116144),
-  new DataPoint('1539648000', 212.2030694387269),
-  new DataPoint('1539734400', 212.4442865474299),
-  new DataPoint('1539820800', 211.08269302502703),
-  new DataPoint('1539907200', 204.31304892929978),
-  new DataPoint('1539993600', 203.97626253061992),
-  new DataPoint('1540080000', 206.88209866230514),
-  new DataPoint('1540166400', 206.30982679591034),
-  new DataPoint('1540252800', 205.03775490876436),
-  new DataPoint('1540339200', 204.08394558056767),
-  new DataPoint('1540425600', 203.52219877380867),
-  new DataPoint('1540512000', 202.35302275695466),
-  new DataPoint('1540598400', 203.38496856526396),
-  new DataPoint('1540684800', 203.18739632422128),
-  new DataPoint('1540771200', 204.7223407022085),
-  new DataPoint('1540857600', 195.7514045211852),
-  new DataPoint('1540944000', 197.44844958499),
-  new DataPoint('1541030400', 198.6390488336609),
-  new DataPoint('1541116800', 199.1226070207313),
-  new DataPoint('1541203200', 202.28275716666218),
-  new DataPoint('1541289600', 200.13622776255878),
-  new DataPoint('1541376000', 206.8144295995958),
-  new DataPoint('1541462400', 209.10887661978714),
-  new DataPoint('1541548800', 219.16088708430863),
-  new DataPoint('1541635200', 219.0157747507676),
-  new DataPoint('1541721600', 213.40763439234544),
-  new DataPoint('1541808000', 210.79061959752252),
-  new DataPoint('1541894400', 212.9658278769949),
-  new DataPoint('1541980800', 212.4733247441558),
-  new DataPoint('1542067200', 211.65690924875202),
-  new DataPoint('1542153600', 208.58229647385883),
-  new DataPoint('1542240000', 184.02255937246562),
-  new DataPoint('1542326400', 182.448242594831),
-  new DataPoint('1542412800', 176.02240566453227),
-  new DataPoint('1542499200', 175.6674163561008),
-  new DataPoint('1542585600', 177.72868960741215),
-  new DataPoint('1542672000', 150.39116276572497),
-  new DataPoint('1542758400', 131.476679735108),
-  new DataPoint('1542844800', 137.1730431934016),
-  new DataPoint('1542931200', 126.06638760845392),
-  new DataPoint('1543017600', 124.15029635415753),
-  new DataPoint('1543104000', 114.28793125942474),
-  new DataPoint('1543190400', 117.52527750634898),
-  new DataPoint('1543276800', 109.43098854688948),
-  new DataPoint('1543363200', 110.43494358866081),
-  new DataPoint('1543449600', 122.44642499081692),
-  new DataPoint('1543536000', 117.70538590366436),
-  new DataPoint('1543622400', 113.4028831522645),
-  new DataPoint('1543708800', 118.10075903673732),
-  new DataPoint('1543795200', 115.94428273243844),
-  new DataPoint('1543881600', 108.67684762425776),
-  new DataPoint('1543968000', 109.85191500097886),
-  new DataPoint('1544054400', 102.51104175852288),
-  new DataPoint('1544140800', 91.10115845588969),
-  new DataPoint('1544227200', 92.96795017189604),
-  new DataPoint('1544313600', 90.67825609691094),
-  new DataPoint('1544400000', 93.53012682199429),
-  new DataPoint('1544486400', 89.85371730794834),
-  new DataPoint('1544572800', 87.85041070425926),
-  new DataPoint('1544659200', 89.37790161622951),
-  new DataPoint('1544745600', 85.95872706359158),
-  new DataPoint('1544832000', 83.78596235654511),
-  new DataPoint('1544918400', 83.8335821320138),
-  new DataPoint('1545004800', 84.46584639727314),
-  new DataPoint('1545091200', 94.07306838255042),
-  new DataPoint('1545177600', 100.05002539321067),
-  new DataPoint('1545264000', 99.49155365807758),
-  new DataPoint('1545350400', 114.42918370038834),
-  new DataPoint('1545436800', 107.85318110517642),
-  new DataPoint('1545523200', 115.04582181530175),
-  new DataPoint('1545609600', 129.20650341412852),
-  new DataPoint('1545696000', 138.95781833191495),
-  new DataPoint('1545782400', 127.63707252348217),
-  new DataPoint('1545868800', 129.51137399263007),
-  new DataPoint('1545955200', 114.1013635506553),
-  new DataPoint('1546041600', 134.01993952035144),
-  new DataPoint('1546128000', 138.75426661197633),
-  new DataPoint('1546214400', 137.6316929791457),
-  new DataPoint('1546300800', 131.45872465603802),
-  new DataPoint('1546387200', 138.14480220535194),
-  new DataPoint('1546473600', 152.86045271321305),
-  new DataPoint('1546560000', 146.7305994341217),
-  new DataPoint('1546646400', 153.0565669307744),
-  new DataPoint('1546732800', 153.65187149457),
-  new DataPoint('1546819200', 154.69930839905126),
-  new DataPoint('1546905600', 149.89869762072908),
-  new DataPoint('1546992000', 148.14786553107623),
-  new DataPoint('1547078400', 148.7388798515161),
-  new DataPoint('1547164800', 126.62475249770274),
-  new DataPoint('1547251200', 124.6267970725248),
-  new DataPoint('1547337600', 123.75936261029351),
-  new DataPoint('1547424000', 114.76604584662175),
-  new DataPoint('1547510400', 127.40527329081972),
-  new DataPoint('1547596800', 119.81437324652917),
-  new DataPoint('1547683200', 122.24553850486993),
-  new DataPoint('1547769600', 121.92726666997898),
-  new DataPoint('1547856000', 119.1707391686563),
-  new DataPoint('1547942400', 122.92817578942176),
-  new DataPoint('1548028800', 117.6078729013454),
-  new DataPoint('1548115200', 115.82686433322588),
-  new DataPoint('1548201600', 117.81718880676009),
-  new DataPoint('1548288000', 116.41601969858114),
-  new DataPoint('1548374400', 116.24543567436463),
-  new DataPoint('1548460800', 115.14990605895021),
-  new DataPoint('1548547200', 115.33716687142687),
-  new DataPoint('1548633600', 112.51348924314217),
-  new DataPoint('1548720000', 105.35239189764611),
-  new DataPoint('1548806400', 104.59784628074063),
-  new DataPoint('1548892800', 108.27309466982854),
-  new DataPoint('1548979200', 106.33599581366398),
-  new DataPoint('1549065600', 107.00955827242754),
-  new DataPoint('1549152000', 108.77817692653159),
-  new DataPoint('1549238400', 107.19999697185268),
-  new DataPoint('1549324800', 107.61824539435413),
-  new DataPoint('1549411200', 107.31703853339418),
-  new DataPoint('1549497600', 104.62362623241391),
-  new DataPoint('1549584000', 104.26536439234141),
-  new DataPoint('1549670400', 119.33360463375858),
-  new DataPoint('1549756800', 119.48955517293045),
-  new DataPoint('1549843200', 124.88963479029995),
-  new DataPoint('1549929600', 120.97026174727318),
-  new DataPoint('1550016000', 122.54208894762355),
-  new DataPoint('1550102400', 122.09412965721424),
-  new DataPoint('1550188800', 120.59217399552682),
-  new DataPoint('1550275200', 121.57227847601175),
-  new DataPoint('1550361600', 122.93860835926709),
-  new DataPoint('1550448000', 133.88146961685993),
-  new DataPoint('1550534400', 145.32602670603126),
-  new DataPoint('1550620800', 143.65523417640586),
-  new DataPoint('1550707200', 148.8684346762975),
-  new DataPoint('1550793600', 145.2958232437471),
-  new DataPoint('1550880000', 148.04165031619752),
-  new DataPoint('1550966400', 157.67559560191677),
-  new DataPoint('1551052800', 134.31602869596247),
-  new DataPoint('1551139200', 137.8218665264574),
-  new DataPoint('1551225600', 135.99783785109707),
-  new DataPoint('1551312000', 134.84981713392082),
-  new DataPoint('1551398400', 135.4906837644075),
-  new DataPoint('1551484800', 134.95470877409352),
-  new DataPoint('1551571200', 132.40742658761687),
-  new DataPoint('1551657600', 130.5403477406027),
-  new DataPoint('1551744000', 125.6240824924571),
-  new DataPoint('1551830400', 136.5502476885833),
-  new DataPoint('1551916800', 137.32665152792868),
-  new DataPoint('1552003200', 136.78614228385894),
-  new DataPoint('1552089600', 133.5416931933968),
-  new DataPoint('1552176000', 137.1960003042231),
-  new DataPoint('1552262400', 135.62080210154824),
-  new DataPoint('1552348800', 132.38753404384025),
-  new DataPoint('1552435200', 133.28742563523164),
-  new DataPoint('1552521600', 131.6683444532404),
-  new DataPoint('1552608000', 132.14623792639355),
-  new DataPoint('1552694400', 136.4478648131974),
-  new DataPoint('1552780800', 141.08804416286097),
-  new DataPoint('1552867200', 138.55063028189403),
-  new DataPoint('1552953600', 137.65794893090973),
-  new DataPoint('1553040000', 138.5225166550466),
-  new DataPoint('1553126400', 139.0759731796369),
-  new DataPoint('1553212800', 135.05601072736965),
-  new DataPoint('1553299200', 136.0995360201361),
-  new DataPoint('1553385600', 137.19806866408575),
-  new DataPoint('1553472000', 136.05748300079634),
-  new DataPoint('1553558400', 133.8175199792062),
-  new DataPoint('1553644800', 134.02990438257248),
-  new DataPoint('1553731200', 139.63660664431762),
-  new DataPoint('1553817600', 137.81198852309657),
-  new DataPoint('1553904000', 143.14644309796884),
-  new DataPoint('1553990400', 142.28965262894044),
-  new DataPoint('1554076800', 141.586389044902),
-  new DataPoint('1554163200', 141.51455520152766),
-  new DataPoint('1554249600', 164.05054289558294),
-  new DataPoint('1554336000', 160.43283831978377),
-  new DataPoint('1554422400', 157.41222580794496),
-  new DataPoint('1554508800', 165.1385234713877),
-  new DataPoint('1554595200', 165.32515186458005),
-  new DataPoint('1554681600', 174.09052297795662),
-  new DataPoint('1554768000', 180.01192355336678),
-  new DataPoint('1554854400', 175.2941224274854),
-  new DataPoint('1554940800', 177.3253178087243),
-  new DataPoint('1555027200', 165.03710682659573),
-  new DataPoint('1555113600', 164.57194837218958),
-  new DataPoint('1555200000', 163.97160033492332),
-  new DataPoint('1555286400', 167.61800117879454),
-  new DataPoint('1555372800', 160.53249078494966),
-  new DataPoint('1555459200', 166.4845378681717),
-  new DataPoint('1555545600', 166.3272646030099),
-  new DataPoint('1555632000', 173.41362781077277),
-  new DataPoint('1555718400', 173.2282621688014),
-  new DataPoint('1555804800', 173.16628767058037),
-  new DataPoint('1555891200', 169.98788930945395),
-  new DataPoint('1555977600', 171.0434707895899),
-  new DataPoint('1556064000', 170.91296418483168),
-  new DataPoint('1556150400', 165.66966005027155),
-  new DataPoint('1556236800', 153.9304406219976),
-  new DataPoint('1556323200', 157.3757012457437),
-  new DataPoint('1556409600', 158.28919434200932),
-  new DataPoint('1556496000', 156.5951891487867),
-  new DataPoint('1556582400', 154.08028243009934),
-  new DataPoint('1556668800', 160.74469184721738),
-  new DataPoint('1556755200', 159.48931440238658),
-  new DataPoint('1556841600', 160.95718796104512),
-  new DataPoint('1556928000', 166.63211526803485),
-  new DataPoint('1557014400', 162.83631690744346),
-  new DataPoint('1557100800', 162.37013497277283),
-  new DataPoint('1557187200', 172.8283284518378),
-  new DataPoint('1557273600', 170.09589748059332),
-  new DataPoint('1557360000', 170.11063311538186),
-  new DataPoint('1557446400', 170.57549417946805),
-  new DataPoint('1557532800', 172.68209089135948),
-  new DataPoint('1557619200', 196.6901677286205),
-  new DataPoint('1557705600', 187.2720183708742),
-  new DataPoint('1557792000', 196.0761130134244),
-  new DataPoint('1557878400', 218.28460968764938),
-  new DataPoint('1557964800', 248.74500426984366),
-  new DataPoint('1558051200', 264.90012138907406),
-  new DataPoint('1558137600', 243.57049917993308),
-  new DataPoint('1558224000', 235.32720134101993),
-  new DataPoint('1558310400', 260.59698403060327),
-  new DataPoint('1558396800', 251.9614994995826),
-  new DataPoint('1558483200', 256.0830401834705),
-  new DataPoint('1558569600', 244.54946301361036),
-  new DataPoint('1558656000', 244.6460957973966),
-  new DataPoint('1558742400', 248.54526290535333),
-  new DataPoint('1558828800', 250.82036469745617),
-  new DataPoint('1558915200', 266.12218207843597),
-  new DataPoint('1559001600', 273.40508817754096),
-  new DataPoint('1559088000', 271.227867157993),
-  new DataPoint('1559174400', 268.7857564563058),
-  new DataPoint('1559260800', 255.37736314606394),
-  new DataPoint('1559347200', 268.12603920482644),
-  new DataPoint('1559433600', 264.72732428744166),
-  new DataPoint('1559520000', 269.9388294795906),
-  new DataPoint('1559606400', 251.75257532903564),
-  new DataPoint('1559692800', 240.23943365820054),
-  new DataPoint('1559779200', 246.82656909017393),
-  new DataPoint('1559865600', 249.9679117723965),
-  new DataPoint('1559952000', 250.63689323005363),
-  new DataPoint('1560038400', 244.62980571926562),
-  new DataPoint('1560124800', 232.04158416760484),
-  new DataPoint('1560211200', 247.25227622797598),
-  new DataPoint('1560297600', 245.08937853941526),
-  new DataPoint('1560384000', 260.5666340627198),
-  new DataPoint('1560470400', 255.1204266417473),
-  new DataPoint('1560556800', 263.92853843827874),
-  new DataPoint('1560643200', 268.1121928964469),
-  new DataPoint('1560729600', 269.0716935274996),
-  new DataPoint('1560816000', 273.12368845247914),
-  new DataPoint('1560902400', 264.78793107969506),
-  new DataPoint('1560988800', 269.1527997781388),
-  new DataPoint('1561075200', 272.334690986303),
-  new DataPoint('1561161600', 294.47562296593696),
-  new DataPoint('1561248000', 310.65499867231955),
-  new DataPoint('1561334400', 307.9472102635873),
-  new DataPoint('1561420800', 311.06822902414945),
-  new DataPoint('1561507200', 318.635944657736),
-  new DataPoint('1561593600', 337.3409578098138),
-  new DataPoint('1561680000', 295.8416528876357),
-  new DataPoint('1561766400', 309.949031472406),
-  new DataPoint('1561852800', 321.43279903776084),
-  new DataPoint('1561939200', 292.83887601724456),
-  new DataPoint('1562025600', 295.2558980709613),
-  new DataPoint('1562112000', 290.9596721071729),
-  new DataPoint('1562198400', 304.1705424011823),
-  new DataPoint('1562284800', 285.2194708797813),
-  new DataPoint('1562371200', 287.98591058443674),
-  new DataPoint('1562457600', 289.57713834106636),
-  new DataPoint('1562544000', 305.33625290070216),
-  new DataPoint('1562630400', 312.4663688290414),
-  new DataPoint('1562716800', 307.7796837520068),
-  new DataPoint('1562803200', 290.009967157574),
-  new DataPoint('1562889600', 268.6352130477999),
-  new DataPoint('1562976000', 275.80920843487644),
-  new DataPoint('1563062400', 270.314761247692),
-  new DataPoint('1563148800', 227.12207268042678),
-  new DataPoint('1563235200', 230.18019411198864),
-  new DataPoint('1563321600', 199.94052185387875),
-  new DataPoint('1563408000', 210.83853712737297),
-  new DataPoint('1563494400', 226.3035342868679),
-  new DataPoint('1563580800', 221.11374095039795),
-  new DataPoint('1563667200', 228.96480408491627),
-  new DataPoint('1563753600', 226.15340772656594),
-  new DataPoint('1563840000', 217.65256165832335),
-  new DataPoint('1563926400', 213.5021516080946),
-  new DataPoint('1564012800', 217.19777774847861),
-  new DataPoint('1564099200', 219.48779097276912),
-  new DataPoint('1564185600', 219.58243262777626),
-  new DataPoint('1564272000', 206.531772895918),
-  new DataPoint('1564358400', 211.229753661743),
-  new DataPoint('1564444800', 210.82351650905207),
-  new DataPoint('1564531200', 209.64626074112806),
-  new DataPoint('1564617600', 218.61308553620958),
-  new DataPoint('1564704000', 216.630420657716),
-  new DataPoint('1564790400', 217.79546207706508),
-  new DataPoint('1564876800', 221.41611875255478),
-  new DataPoint('1564963200', 221.98815294300547),
-  new DataPoint('1565049600', 232.82368350463972),
-  new DataPoint('1565136000', 227.02071107575),
-  new DataPoint('1565222400', 226.4011931773696),
-  new DataPoint('1565308800', 221.99588620712112),
-  new DataPoint('1565395200', 210.15361895773407),
-  new DataPoint('1565481600', 206.50462546838185),
-  new DataPoint('1565568000', 216.4855805517722),
-  new DataPoint('1565654400', 211.11314126304725),
-  new DataPoint('1565740800', 209.26573714761406),
-  new DataPoint('1565827200', 185.65530058955875),
-  new DataPoint('1565913600', 188.15278116773473),
-  new DataPoint('1566000000', 185.15324355177958),
-  new DataPoint('1566086400', 185.76004109383433),
-  new DataPoint('1566172800', 194.35736761658467),
-  new DataPoint('1566259200', 202.95975075968417),
-  new DataPoint('1566345600', 196.27274728566928),
-  new DataPoint('1566432000', 187.01618910896025),
-  new DataPoint('1566518400', 191.52119596772542),
-  new DataPoint('1566604800', 194.2093873568753),
-  new DataPoint('1566691200', 190.55575089343063),
-  new DataPoint('1566777600', 186.32236897942659),
-  new DataPoint('1566864000', 188.37725745413954),
-  new DataPoint('1566950400', 186.97068487781738),
-  new DataPoint('1567036800', 173.02703573027782),
-  new DataPoint('1567123200', 168.79916502828434),
-  new DataPoint('1567209600', 168.6708883739598),
-  new DataPoint('1567296000', 172.07296929356409),
-  new DataPoint('1567382400', 170.72754514461607),
-  new DataPoint('1567468800', 177.71647895327314),
-  new DataPoint('1567555200', 178.82647784328285),
-  new DataPoint('1567641600', 174.77627554812665),
-  new DataPoint('1567728000', 174.1938100520476),
-  new DataPoint('1567814400', 169.42286694793444),
-  new DataPoint('1567900800', 177.85258889110943),
-  new DataPoint('1567987200', 181.4839320522675),
-  new DataPoint('1568073600', 181.01465623196765),
-  new DataPoint('1568160000', 180.1493915298145),
-  new DataPoint('1568246400', 178.08294980618456),
-  new DataPoint('1568332800', 181.010836085851),
-  new DataPoint('1568419200', 181.2119450035023),
-  new DataPoint('1568505600', 188.30568158376607),
-  new DataPoint('1568592000', 189.25504633546134),
-  new DataPoint('1568678400', 197.60691638393752),
-  new DataPoint('1568764800', 209.21116304181604),
-  new DataPoint('1568851200', 210.24907372866744),
-  new DataPoint('1568937600', 221.74292599489385),
-  new DataPoint('1569024000', 217.95344382394939),
-  new DataPoint('1569110400', 215.34523960456264),
-  new DataPoint('1569196800', 211.61753840452246),
-  new DataPoint('1569283200', 201.00337752581868),
-  new DataPoint('1569369600', 168.67357964603033),
-  new DataPoint('1569456000', 170.28886769224317),
-  new DataPoint('1569542400', 166.21680322909975),
-  new DataPoint('1569628800', 173.90494900595044),
-  new DataPoint('1569715200', 174.07970541243265),
-  new DataPoint('1569801600', 169.6894747522977),
-  new DataPoint('1569888000', 179.75716197925505),
-  new DataPoint('1569974400', 180.63244082835516),
-  new DataPoint('1570060800', 180.57893058773016),
-  new DataPoint('1570147200', 176.85852555342686),
-  new DataPoint('1570233600', 175.86315365350248),
-  new DataPoint('1570320000', 176.2772565733896),
-  new DataPoint('1570406400', 170.44710628243018),
-  new DataPoint('1570492800', 180.14424760253544),
-  new DataPoint('1570579200', 180.78979326727546),
-  new DataPoint('1570665600', 193.33993781390976),
-  new DataPoint('1570752000', 191.04108656991255),
-  new DataPoint('1570838400', 180.55244905183102),
-  new DataPoint('1570924800', 179.94653567610214),
-  new DataPoint('1571011200', 181.2872472944888),
-  new DataPoint('1571097600', 186.61606753146776),
-  new DataPoint('1571184000', 180.74563079187547),
-  new DataPoint('1571270400', 175.05406935469742),
-  new DataPoint('1571356800', 177.4769186344818),
-  new DataPoint('1571443200', 172.88626058117322),
-  new DataPoint('1571529600', 171.85241043187662),
-  new DataPoint('1571616000', 175.21210857661558),
-  new DataPoint('1571702400', 174.35449608806442),
-  new DataPoint('1571788800', 171.4265472158501),
-  new DataPoint('1571875200', 161.5840435929357),
-  new DataPoint('1571961600', 160.67839136074096),
-  new DataPoint('1572048000', 181.45319156222183),
-  new DataPoint('1572134400', 179.53527008259897),
-  new DataPoint('1572220800', 183.58089983827585),
-  new DataPoint('1572307200', 181.86179987269554),
-  new DataPoint('1572393600', 190.50596091786502),
-  new DataPoint('1572480000', 183.13375148673262),
-  new DataPoint('1572566400', 182.75570124695298),
-  new DataPoint('1572652800', 183.064191451962),
-  new DataPoint('1572739200', 183.21568174708486),
-  new DataPoint('1572825600', 181.8244399622803),
-  new DataPoint('1572912000', 185.76433086001398),
-  new DataPoint('1572998400', 189.16575518025138),
-  new DataPoint('1573084800', 191.3004004540056),
-  new DataPoint('1573171200', 186.81653195658674),
-  new DataPoint('1573257600', 183.6736227613274),
-  new DataPoint('1573344000', 184.95814543107952),
-  new DataPoint('1573430400', 189.04498222352015),
-  new DataPoint('1573516800', 184.839873654298),
-  new DataPoint('1573603200', 186.8659398462863),
-  new DataPoint('1573689600', 187.84288849379362),
-  new DataPoint('1573776000', 184.78830689468228),
-  new DataPoint('1573862400', 180.16871140792335),
-  new DataPoint('1573948800', 182.63065416042576),
-  new DataPoint('1574035200', 183.9879638750186),
-  new DataPoint('1574121600', 178.3855993731378),
-  new DataPoint('1574208000', 175.8204845763924),
-  new DataPoint('1574294400', 174.80445727797053),
-  new DataPoint('1574380800', 161.15147727923085),
-  new DataPoint('1574467200', 149.92569206419535),
-  new DataPoint('1574553600', 151.96608493452732),
-  new DataPoint('1574640000', 140.24681084120735),
-  new DataPoint('1574726400', 146.34618694453036),
-  new DataPoint('1574812800', 147.57506848968612),
-  new DataPoint('1574899200', 152.615068348219),
-  new DataPoint('1574985600', 150.91034572010813),
-  new DataPoint('1575072000', 154.25530586508248),
-  new DataPoint('1575158400', 151.73585404476006),
-  new DataPoint('1575244800', 151.02315688624967),
-  new DataPoint('1575331200', 148.86726798663648),
-  new DataPoint('1575417600', 147.12795176955626),
-  new DataPoint('1575504000', 145.40170953026762),
-  new DataPoint('1575590400', 147.79749210977155),
-  new DataPoint('1575676800', 148.60569815279229),
-  new DataPoint('1575763200', 147.1457864691915),
-  new DataPoint('1575849600', 150.2924488050236),
-  new DataPoint('1575936000', 147.42926132729735),
-  new DataPoint('1576022400', 145.56867918491014),
-  new DataPoint('1576108800', 143.12297867633916),
-  new DataPoint('1576195200', 145.02592545573296),
-  new DataPoint('1576281600', 144.6187808332106),
-  new DataPoint('1576368000', 141.84486515951662),
-  new DataPoint('1576454400', 142.21086918955265),
-  new DataPoint('1576540800', 132.72274321129302),
-  new DataPoint('1576627200', 121.770107290006),
-  new DataPoint('1576713600', 132.74136111736684),
-  new DataPoint('1576800000', 128.0791538700726),
-  new DataPoint('1576886400', 128.2701941791178),
-  new DataPoint('1576972800', 126.93287325611249),
-  new DataPoint('1577059200', 132.17746965077103),
-  new DataPoint('1577145600', 128.16997170630987),
-  new DataPoint('1577232000', 127.72559890360142),
-  new DataPoint('1577318400', 125.01870585042732),
-  new DataPoint('1577404800', 125.61458431453704),
-  new DataPoint('1577491200', 126.32718018933488),
-  new DataPoint('1577577600', 128.0669874384903),
-  new DataPoint('1577664000', 134.3236471998861),
-  new DataPoint('1577750400', 131.4621363838881),
-  new DataPoint('1577836800', 129.18638529253852),
-  new DataPoint('1577923200', 130.4846850311141),
-  new DataPoint('1578009600', 127.04525801179804),
-  new DataPoint('1578096000', 133.70264861844188),
-  new DataPoint('1578182400', 134.1368826978575),
-  new DataPoint('1578268800', 135.00571364233375),
-  new DataPoint('1578355200', 143.80639795566535),
-  new DataPoint('1578441600', 143.019432264986),
-  new DataPoint('1578528000', 140.27393527388705),
-  new DataPoint('1578614400', 137.86055928182662),
-  new DataPoint('1578700800', 144.6047743464792),
-  new DataPoint('1578787200', 142.18233327497873),
-  new DataPoint('1578873600', 145.42287633530452),
-  new DataPoint('1578960000', 143.58796905036286),
-  new DataPoint('1579046400', 165.99143854583525),
-  new DataPoint('1579132800', 166.2530969048888),
-  new DataPoint('1579219200', 163.80590111423027),
-  new DataPoint('1579305600', 171.15621787671842),
-  new DataPoint('1579392000', 174.23837318258896),
-  new DataPoint('1579478400', 166.6271059505621),
-  new DataPoint('1579564800', 166.93852805776982),
-  new DataPoint('1579651200', 169.27993585839258),
-  new DataPoint('1579737600', 167.8265296405669),
-  new DataPoint('1579824000', 162.51937110634034),
-  new DataPoint('1579910400', 162.40947975163584),
-  new DataPoint('1579996800', 160.6736108617405),
-  new DataPoint('1580083200', 167.6474095857562),
-  new DataPoint('1580169600', 169.7364357354222),
-  new DataPoint('1580256000', 175.19000305345378),
-  new DataPoint('1580342400', 173.70688823620796),
-  new DataPoint('1580428800', 184.72621843141044),
-  new DataPoint('1580515200', 179.22910385240368),
-  new DataPoint('1580601600', 183.33693755210257),
-  new DataPoint('1580688000', 188.55064179431113),
-  new DataPoint('1580774400', 189.86176346298166),
-  new DataPoint('1580860800', 188.84220736948276),
-  new DataPoint('1580947200', 203.8593183747095),
-  new DataPoint('1581033600', 212.73341421352782),
-  new DataPoint('1581120000', 223.27631974791998),
-  new DataPoint('1581206400', 223.30077697426225),
-  new DataPoint('1581292800', 228.29226083217347),
-  new DataPoint('1581379200', 224.14699652028605),
-  new DataPoint('1581465600', 236.78534852972567),
-  new DataPoint('1581552000', 264.03276824299627),
-  new DataPoint('1581638400', 267.6704445042514),
-  new DataPoint('1581724800', 284.2318914741183),
-  new DataPoint('1581811200', 263.8999463915962),
-  new DataPoint('1581897600', 262.1562443168135),
-  new DataPoint('1581984000', 267.9356656159883),
-  new DataPoint('1582070400', 281.9457403055278),
-  new DataPoint('1582156800', 259.1838037480287),
-  new DataPoint('1582243200', 257.9883953048601),
-  new DataPoint('1582329600', 265.1644591338591),
-  new DataPoint('1582416000', 260.99654013152536),
-  new DataPoint('1582502400', 274.6312157785517),
-  new DataPoint('1582588800', 265.2421912203732),
-  new DataPoint('1582675200', 248.31738139395102),
-  new DataPoint('1582761600', 224.81050829744677),
-  new DataPoint('1582848000', 225.42971511683754),
-  new DataPoint('1582934400', 227.70528448376498),
-  new DataPoint('1583020800', 218.34835692985286),
-  new DataPoint('1583107200', 218.93979697447656),
-  new DataPoint('1583193600', 231.67944604592213),
-  new DataPoint('1583280000', 223.96011601810258),
-  new DataPoint('1583366400', 224.13487737180202),
-  new DataPoint('1583452800', 228.0809351016884),
-  new DataPoint('1583539200', 244.23846951978683),
-  new DataPoint('1583625600', 237.38079020191347),
-  new DataPoint('1583712000', 198.81964228768578),
-  new DataPoint('1583798400', 200.84687148188746),
-  new DataPoint('1583884800', 200.74903854851766),
-  new DataPoint('1583971200', 194.21794124025206),
-  new DataPoint('1584057600', 110.5978978308351),
-  new DataPoint('1584144000', 132.57285770180832),
-  new DataPoint('1584230400', 123.030844108903),
-  new DataPoint('1584316800', 124.60342553062202),
-  new DataPoint('1584403200', 110.99159845334059),
-  new DataPoint('1584489600', 117.21704138518466),
-  new DataPoint('1584576000', 117.7004246469663),
-  new DataPoint('1584662400', 136.81187578973578),
-  new DataPoint('1584748800', 131.96469397290025),
-  new DataPoint('1584835200', 131.94321845316688),
-  new DataPoint('1584921600', 122.5205987665882),
-  new DataPoint('1585008000', 135.58865798037067),
-  new DataPoint('1585094400', 138.77657127268222),
-  new DataPoint('1585180800', 136.23392142176775),
-  new DataPoint('1585267200', 138.76693759902926),
-  new DataPoint('1585353600', 130.2865618875773),
-  new DataPoint('1585440000', 131.42405214081145),
-  new DataPoint('1585526400', 125.31887451568916),
-  new DataPoint('1585612800', 132.36373895414985),
-  new DataPoint('1585699200', 133.2364468438201),
-  new DataPoint('1585785600', 136.21638557312852),
-  new DataPoint('1585872000', 141.4537053523866),
-  new DataPoint('1585958400', 141.26154326644877),
-  new DataPoint('1586044800', 144.200802681986),
-  new DataPoint('1586131200', 142.8508834648482),
-  new DataPoint('1586217600', 169.85504979336824),
-  new DataPoint('1586304000', 164.5160197107307),
-  new DataPoint('1586390400', 172.80356826747519),
-  new DataPoint('1586476800', 170.09510352387568),
-  new DataPoint('1586563200', 157.74015800780134),
-  new DataPoint('1586649600', 158.32787794181905),
-  new DataPoint('1586736000', 158.8638257195104),
-  new DataPoint('1586822400', 156.70135879140688),
-  new DataPoint('1586908800', 158.26715118298955),
-  new DataPoint('1586995200', 153.2228636800284),
-  new DataPoint('1587081600', 171.7759907508837),
-  new DataPoint('1587168000', 170.445890477055),
-  new DataPoint('1587254400', 187.14354411560592),
-  new DataPoint('1587340800', 180.05859654051866),
-  new DataPoint('1587427200', 170.70405868653958),
-  new DataPoint('1587513600', 170.45154288047368),
-  new DataPoint('1587600000', 182.2767576620704),
-  new DataPoint('1587686400', 184.59370248021838),
-  new DataPoint('1587772800', 187.34336861419638),
-  new DataPoint('1587859200', 194.11423682570447),
-  new DataPoint('1587945600', 197.22990444623989),
-  new DataPoint('1588032000', 196.46262535084685),
-  new DataPoint('1588118400', 197.15473156634306),
-  new DataPoint('1588204800', 215.54817266567386),
-  new DataPoint('1588291200', 205.55600541063674),
-  new DataPoint('1588377600', 211.96829534904975),
-  new DataPoint('1588464000', 213.94301121407548),
-  new DataPoint('1588550400', 210.02470947464775),
-  new DataPoint('1588636800', 206.8325342346069),
-  new DataPoint('1588723200', 205.22517973985205),
-  new DataPoint('1588809600', 200.25479450009442),
-  new DataPoint('1588896000', 212.29247620086525),
-  new DataPoint('1588982400', 211.68904835113835),
-  new DataPoint('1589068800', 210.4318181376063),
-  new DataPoint('1589155200', 188.13722615896586),
-  new DataPoint('1589241600', 185.67471809740294),
-  new DataPoint('1589328000', 189.30578181851274),
-  new DataPoint('1589414400', 199.36937254304945),
-  new DataPoint('1589500800', 203.21124699378416),
-  new DataPoint('1589587200', 194.27309778153102),
-  new DataPoint('1589673600', 200.58339090310048),
-  new DataPoint('1589760000', 206.76889403683904),
-  new DataPoint('1589846400', 214.35764164526782),
-  new DataPoint('1589932800', 213.68672021176667),
-  new DataPoint('1590019200', 209.9207882888633),
-  new DataPoint('1590105600', 198.9175157507187),
-  new DataPoint('1590192000', 206.22772963994552),
-  new DataPoint('1590278400', 206.4112069583191),
-  new DataPoint('1590364800', 200.69072858230618),
-  new DataPoint('1590451200', 203.81011834234977),
-  new DataPoint('1590537600', 200.96361540675866),
-  new DataPoint('1590624000', 207.84589389085414),
-  new DataPoint('1590710400', 219.59156405880168),
-  new DataPoint('1590796800', 220.49116734603788),
-  new DataPoint('1590883200', 242.70977026782677),
-  new DataPoint('1590969600', 232.33100303896677),
-  new DataPoint('1591056000', 248.04456658448655),
-  new DataPoint('1591142400', 237.26532012867918),
-  new DataPoint('1591228800', 244.1253366100756),
-  new DataPoint('1591315200', 243.70782131595863),
-  new DataPoint('1591401600', 240.24696898765103),
-  new DataPoint('1591488000', 242.02164036721499),
-  new DataPoint('1591574400', 244.22674439497985),
-  new DataPoint('1591660800', 246.21278326044262),
-  new DataPoint('1591747200', 243.8495266518988),
-  new DataPoint('1591833600', 247.5419715295243),
-  new DataPoint('1591920000', 232.00078536182022),
-  new DataPoint('1592006400', 237.59341087744238),
-  new DataPoint('1592092800', 238.29362910089247),
-  new DataPoint('1592179200', 232.11252047744935),
-  new DataPoint('1592265600', 231.0170115525279),
-  new DataPoint('1592352000', 235.28847948297147),
-  new DataPoint('1592438400', 233.8636184621818),
-  new DataPoint('1592524800', 231.68485732135008),
-  new DataPoint('1592611200', 228.9592128032193),
-  new DataPoint('1592697600', 228.8691487972198),
-  new DataPoint('1592784000', 227.79190590968685),
-  new DataPoint('1592870400', 243.36470999245498),
-  new DataPoint('1592956800', 243.07948223903702),
-  new DataPoint('1593043200', 234.5649846444734),
-  new DataPoint('1593129600', 232.64870349961575),
-  new DataPoint('1593216000', 229.6365260272679),
-  new DataPoint('1593302400', 221.0260852973422),
-  new DataPoint('1593388800', 225.12294616525017),
-  new DataPoint('1593475200', 228.20576377381224),
-  new DataPoint('1593561600', 225.59281496891896),
-  new DataPoint('1593648000', 230.66194359094902),
-  new DataPoint('1593734400', 226.57442434030435),
-  new DataPoint('1593820800', 225.1764054804081),
-  new DataPoint('1593907200', 229.09471646218861),
-  new DataPoint('1593993600', 227.8993750381917),
-  new DataPoint('1594080000', 241.52685187431663),
-  new DataPoint('1594166400', 238.96448054067793),
-  new DataPoint('1594252800', 246.85900786802029),
-  new DataPoint('1594339200', 241.97512857897888),
-  new DataPoint('1594425600', 240.95495378293265),
-  new DataPoint('1594512000', 239.10202554671358),
-  new DataPoint('1594598400', 241.7715226007061),
-  new DataPoint('1594684800', 239.63878681174097),
-  new DataPoint('1594771200', 240.25147066847245),
-  new DataPoint('1594857600', 238.66359720631723),
-  new DataPoint('1594944000', 233.837074562722),
-  new DataPoint('1595030400', 232.78147743826054),
-  new DataPoint('1595116800', 235.6811447764246),
-  new DataPoint('1595203200', 238.89523167867932),
-  new DataPoint('1595289600', 236.06009844538684),
-  new DataPoint('1595376000', 245.23373502634252),
-  new DataPoint('1595462400', 263.7624639660021),
-  new DataPoint('1595548800', 274.7236202591814),
-  new DataPoint('1595635200', 279.42705624758224),
-  new DataPoint('1595721600', 305.0381394111965),
-  new DataPoint('1595808000', 310.51799095173624),
-  new DataPoint('1595894400', 320.47619130968184),
-  new DataPoint('1595980800', 316.4067660520556),
-  new DataPoint('1596067200', 317.5390729161191),
-  new DataPoint('1596153600', 334.7419220365616),
-  new DataPoint('1596240000', 346.00350607288686),
-  new DataPoint('1596326400', 387.94242117124685),
-  new DataPoint('1596412800', 370.7323024312388),
-  new DataPoint('1596499200', 386.24744771780877),
-  new DataPoint('1596585600', 389.3830083498991),
-  new DataPoint('1596672000', 400.18436250317995),
-  new DataPoint('1596758400', 394.5417454611831),
-  new DataPoint('1596844800', 379.1351558498163),
-  new DataPoint('1596931200', 391.47843864211467),
-  new DataPoint('1597017600', 389.62293111291143),
-  new DataPoint('1597104000', 395.20991365718925),
-  new DataPoint('1597190400', 379.17476395275435),
-  new DataPoint('1597276800', 387.50053082397886),
-  new DataPoint('1597363200', 427.49026536796873),
-  new DataPoint('1597449600', 438.7625874702974),
-  new DataPoint('1597536000', 432.6546652389318),
-  new DataPoint('1597622400', 433.43186093211244),
-  new DataPoint('1597708800', 430.03250508972275),
-  new DataPoint('1597795200', 422.10665286599425),
-  new DataPoint('1597881600', 406.5744691821068),
-  new DataPoint('1597968000', 416.46977582279794),
-  new DataPoint('1598054400', 386.8238914189483),
-  new DataPoint('1598140800', 395.88501828908585),
-  new DataPoint('1598227200', 390.7891350477376),
-  new DataPoint('1598313600', 408.2691456317229),
-  new DataPoint('1598400000', 383.66214311829924),
-  new DataPoint('1598486400', 385.75249987492117),
-  new DataPoint('1598572800', 381.8376513210842),
-  new DataPoint('1598659200', 395.1382132386204),
-  new DataPoint('1598745600', 399.374543834064),
-  new DataPoint('1598832000', 428.2956791635218),
-  new DataPoint('1598918400', 435.6930232991007),
-  new DataPoint('1599004800', 475.6846642626859),
-  new DataPoint('1599091200', 439.35376021531494),
-  new DataPoint('1599177600', 383.6915311779978),
-  new DataPoint('1599264000', 387.9040290939166),
-  new DataPoint('1599350400', 334.46859301354317),
-  new DataPoint('1599436800', 352.99300214607035),
-  new DataPoint('1599523200', 351.8778602923998),
-  new DataPoint('1599609600', 337.84505193506857),
-  new DataPoint('1599696000', 351.2322670832359),
-  new DataPoint('1599782400', 367.63892881000675),
-  new DataPoint('1599868800', 373.9149059897517),
-  new DataPoint('1599955200', 387.72351629002264),
-  new DataPoint('1600041600', 365.695506306262),
-  new DataPoint('1600128000', 376.394561113407),
-  new DataPoint('1600214400', 364.6900450860686),
-  new DataPoint('1600300800', 365.13055081164816),
-  new DataPoint('1600387200', 388.7974562319938),
-  new DataPoint('1600473600', 383.17286599152135),
-  new DataPoint('1600560000', 385.4721234936851),
-  new DataPoint('1600646400', 370.9678951624775),
-  new DataPoint('1600732800', 341.27713087183076),
-  new DataPoint('1600819200', 343.9175471009491),
-  new DataPoint('1600905600', 321.0774351739628),
-  new DataPoint('1600992000', 348.8210199785493),
-  new DataPoint('1601078400', 351.3315670221176),
-  new DataPoint('1601164800', 354.2615819143104),
-  new DataPoint('1601251200', 357.0664364067552),
-  new DataPoint('1601337600', 354.4295835375506),
-  new DataPoint('1601424000', 359.4260895383702),
-  new DataPoint('1601510400', 359.59898475085777),
-  new DataPoint('1601596800', 353.1978481381707),
-  new DataPoint('1601683200', 345.9125682279143),
-  new DataPoint('1601769600', 345.99246319342933),
-  new DataPoint('1601856000', 352.4588065039611),
-  new DataPoint('1601942400', 353.6044273109067),
-  new DataPoint('1602028800', 340.6160218128092),
-  new DataPoint('1602115200', 341.4437964782809),
-  new DataPoint('1602201600', 350.0556765681245),
-  new DataPoint('1602288000', 365.33944481939363),
-  new DataPoint('1602374400', 370.4718109734285),
-  new DataPoint('1602460800', 374.4970150925736),
-  new DataPoint('1602547200', 387.25555835657167),
-  new DataPoint('1602633600', 381.16877389892255),
-  new DataPoint('1602720000', 379.21025376092774),
-  new DataPoint('1602806400', 377.15868107868175),
-  new DataPoint('1602892800', 365.9906423831468),
-  new DataPoint('1602979200', 368.6504703636898),
-  new DataPoint('1603065600', 378.0493653237596),
-  new DataPoint('1603152000', 379.6394773321801),
-  new DataPoint('1603238400', 368.2270142350454),
-  new DataPoint('1603324800', 391.16674217757225),
-  new DataPoint('1603411200', 413.2018903361906),
-  new DataPoint('1603497600', 408.88948864371923),
-  new DataPoint('1603584000', 411.95921775305027),
-  new DataPoint('1603670400', 406.157094148215),
-  new DataPoint('1603756800', 393.38290839224464),
-  new DataPoint('1603843200', 403.529837833562),
-  new DataPoint('1603929600', 388.87733988207765),
-  new DataPoint('1604016000', 386.4460129872924),
-  new DataPoint('1604102400', 382.9007710380906),
-  new DataPoint('1604188800', 385.8445887975079),
-  new DataPoint('1604275200', 394.9363420491719),
-  new DataPoint('1604361600', 383.8498034220404),
-  new DataPoint('1604448000', 387.616373722075),
-  new DataPoint('1604534400', 401.7330968324722),
-  new DataPoint('1604620800', 415.9277704309719),
-  new DataPoint('1604707200', 454.6515430984697),
-  new DataPoint('1604793600', 435.4183540833094),
-  new DataPoint('1604880000', 455.3583669721691),
-  new DataPoint('1604966400', 445.0512933420698),
-  new DataPoint('1605052800', 449.8161845012962),
-  new DataPoint('1605139200', 463.18087172032307),
-  new DataPoint('1605225600', 462.2056195794902),
-  new DataPoint('1605312000', 475.9690936576015),
-  new DataPoint('1605398400', 462.7183970607933),
-  new DataPoint('1605484800', 449.2068016397434),
-  new DataPoint('1605571200', 461.3711967052673),
-  new DataPoint('1605657600', 482.1983847235396),
-  new DataPoint('1605744000', 479.43766136247405),
-  new DataPoint('1605830400', 471.31795839441156),
-  new DataPoint('1605916800', 508.79221458524455),
-  new DataPoint('1606003200', 548.842116249849),
-  new DataPoint('1606089600', 560.5088874583059),
-  new DataPoint('1606176000', 608.2733109189421),
-  new DataPoint('1606262400', 602.6662623938871),
-  new DataPoint('1606348800', 568.2751530404493),
-  new DataPoint('1606435200', 518.4670452162002),
-  new DataPoint('1606521600', 517.5530264056014),
-  new DataPoint('1606608000', 537.3926120944484),
-  new DataPoint('1606694400', 574.7511196548439),
-  new DataPoint('1606780800', 612.2637856122055),
-  new DataPoint('1606867200', 589.5818443540976),
-  new DataPoint('1606953600', 598.760610095824),
-  new DataPoint('1607040000', 616.506661565682),
-  new DataPoint('1607126400', 571.1904316349736),
-  new DataPoint('1607212800', 595.9194139680376),
-  new DataPoint('1607299200', 601.9689349244918),
-  new DataPoint('1607385600', 592.3865066820175),
-  new DataPoint('1607472000', 554.329674302381),
-  new DataPoint('1607558400', 573.8953091099941),
-  new DataPoint('1607644800', 560.4542654076048),
-  new DataPoint('1607731200', 545.9828352633687),
-  new DataPoint('1607817600', 568.3587534073821),
-  new DataPoint('1607904000', 590.3244403029342),
-  new DataPoint('1607990400', 585.5418949360015),
-  new DataPoint('1608076800', 589.0668316450424),
-  new DataPoint('1608163200', 635.9618893796135),
-  new DataPoint('1608249600', 644.0652701929779),
-  new DataPoint('1608336000', 654.4204162965752),
-  new DataPoint('1608422400', 659.3188076372094),
-  new DataPoint('1608508800', 639.5154368778184),
-  new DataPoint('1608595200', 610.4270278980672),
-  new DataPoint('1608681600', 634.9797234431858),
-  new DataPoint('1608768000', 587.9588954992439),
-  new DataPoint('1608854400', 612.8796570505974),
-  new DataPoint('1608940800', 626.4567387784558),
-  new DataPoint('1609027200', 636.7423171944997),
-  new DataPoint('1609113600', 689.6598573269875),
-  new DataPoint('1609200000', 732.9570292975275),
-  new DataPoint('1609286400', 735.5908981625738),
-  new DataPoint('1609372800', 752.8559324490188),
-  new DataPoint('1609459200', 738.6169381520413),
-  new DataPoint('1609545600', 730.1473402196374),
-  new DataPoint('1609632000', 777.6960653039432),
-  new DataPoint('1609718400', 967.0005967288458),
-  new DataPoint('1609804800', 1025.6547675669035),
-  new DataPoint('1609891200', 1103.3582516225742),
-  new DataPoint('1609977600', 1208.5750928728885),
-  new DataPoint('1610064000', 1229.4713150147782),
-  new DataPoint('1610150400', 1223.7296883535275),
-  new DataPoint('1610236800', 1282.979575527323),
-  new DataPoint('1610323200', 1267.7310031512136),
-  new DataPoint('1610409600', 1092.9143378806064),
-  new DataPoint('1610496000', 1045.406815230412),
-  new DataPoint('1610582400', 1132.0155910164729),
-  new DataPoint('1610668800', 1216.9147884634556),
-  new DataPoint('1610755200', 1171.8600177046465),
-  new DataPoint('1610841600', 1234.6318700828049),
-  new DataPoint('1610928000', 1229.379698072007),
-  new DataPoint('1611014400', 1255.976691513213),
-  new DataPoint('1611100800', 1383.4840902277115),
-  new DataPoint('1611187200', 1385.8529958752583),
-  new DataPoint('1611273600', 1122.912432537305),
-  new DataPoint('1611360000', 1236.6834427536564),
-  new DataPoint('1611446400', 1231.176379704471),
-  new DataPoint('1611532800', 1392.5397634449737),
-  new DataPoint('1611619200', 1323.4295031020106),
-  new DataPoint('1611705600', 1355.233724240999),
-  new DataPoint('1611792000', 1253.141671558609),
-  new DataPoint('1611878400', 1328.773619066556),
-  new DataPoint('1611964800', 1380.2842591352105),
-  new DataPoint('1612051200', 1372.427228964234),
-  new DataPoint('1612137600', 1317.0474362291777),
-  new DataPoint('1612224000', 1368.6644548123775),
-  new DataPoint('1612310400', 1514.2251957516528),
-  new DataPoint('1612396800', 1661.000824367477),
-  new DataPoint('1612483200', 1587.8008991859367),
-  new DataPoint('1612569600', 1724.8569083393102),
-  new DataPoint('1612656000', 1683.941297865053),
-  new DataPoint('1612742400', 1608.6405479857196),
-  new DataPoint('1612828800', 1750.997553719215),
-  new DataPoint('1612915200', 1769.053533934599),
-  new DataPoint('1613001600', 1739.164209004836),
-  new DataPoint('1613088000', 1782.5088691218523),
-  new DataPoint('1613174400', 1841.1977507032907),
-  new DataPoint('1613260800', 1810.8425457323726),
-  new DataPoint('1613347200', 1804.9841464366498),
-  new DataPoint('1613433600', 1775.758351701864),
-  new DataPoint('1613520000', 1782.5753090505934),
-  new DataPoint('1613606400', 1845.5739221567521),
-  new DataPoint('1613692800', 1938.5694368074617),
-  new DataPoint('1613779200', 1969.9797177628186),
-  new DataPoint('1613865600', 1929.367692879665),
-  new DataPoint('1613952000', 1941.4267676797988),
-  new DataPoint('1614038400', 1788.6152102806425),
-  new DataPoint('1614124800', 1563.9246059011416),
-  new DataPoint('1614211200', 1628.391533792655),
-  new DataPoint('1614297600', 1468.8601037286776),
-  new DataPoint('1614384000', 1450.988746804119),
-  new DataPoint('1614470400', 1480.1295768477528),
-  new DataPoint('1614556800', 1416.661552837565),
-  new DataPoint('1614643200', 1570.3996896340539),
-  new DataPoint('1614729600', 1497.0891042633873),
-  new DataPoint('1614816000', 1579.4271687603093),
-  new DataPoint('1614902400', 1546.4996211167372),
-  new DataPoint('1614988800', 1539.0484290947375),
-  new DataPoint('1615075200', 1661.9279698998157),
-  new DataPoint('1615161600', 1727.463096224567),
-  new DataPoint('1615248000', 1837.5330305439452),
-  new DataPoint('1615334400', 1869.3311016255),
-  new DataPoint('1615420800', 1802.3110916881178),
-  new DataPoint('1615507200', 1826.0574768119818),
-  new DataPoint('1615593600', 1770.9361793697751),
-  new DataPoint('1615680000', 1927.7207203999014),
-  new DataPoint('1615766400', 1866.0715447008808),
-  new DataPoint('1615852800', 1791.047851830107),
-  new DataPoint('1615939200', 1808.5512173614395),
-  new DataPoint('1616025600', 1828.7548332342565),
-  new DataPoint('1616112000', 1780.1596459528505),
-  new DataPoint('1616198400', 1817.1329628084297),
-  new DataPoint('1616284800', 1817.8601431294944),
-  new DataPoint('1616371200', 1790.3780747526928),
-  new DataPoint('1616457600', 1686.8911971580417),
-  new DataPoint('1616544000', 1673.8591835627929),
-  new DataPoint('1616630400', 1581.631055931366),
-  new DataPoint('1616716800', 1587.2979641585232),
-  new DataPoint('1616803200', 1700.3668693581185),
-  new DataPoint('1616889600', 1713.8378756834459),
-  new DataPoint('1616976000', 1689.0367982059097),
-  new DataPoint('1617062400', 1817.626388088868),
-  new DataPoint('1617148800', 1840.294951985396),
-  new DataPoint('1617235200', 1915.8325358462234),
-  new DataPoint('1617321600', 1970.4711995232753),
-  new DataPoint('1617408000', 2134.101788297294),
-  new DataPoint('1617494400', 2016.6672472930366),
-  new DataPoint('1617580800', 2077.755212422407),
-  new DataPoint('1617667200', 2097.7963827792596),
-  new DataPoint('1617753600', 2115.0554517461082),
-  new DataPoint('1617840000', 1989.1480619041722),
-  new DataPoint('1617926400', 2081.3540625398964),
-  new DataPoint('1618012800', 2069.6677960855295),
-  new DataPoint('1618099200', 2142.7960653929085),
-  new DataPoint('1618185600', 2150.2651427927744),
-  new DataPoint('1618272000', 2142.476275865736),
-  new DataPoint('1618358400', 2304.3435163110134),
-  new DataPoint('1618444800', 2429.6615277515734),
-  new DataPoint('1618531200', 2514.1684155812304),
-  new DataPoint('1618617600', 2424.5538447081194),
-  new DataPoint('1618704000', 2345.266962776132),
-  new DataPoint('1618790400', 2245.7607533508544),
-  new DataPoint('1618876800', 2168.032726735651),
-  new DataPoint('1618963200', 2324.2846872281943),
-  new DataPoint('1619049600', 2373.501344298211),
-  new DataPoint('1619136000', 2426.0711497906045),
-  new DataPoint('1619222400', 2364.2312036020908),
-  new DataPoint('1619308800', 2212.8437976342047),
-  new DataPoint('1619395200', 2307.35532084471),
-  new DataPoint('1619481600', 2532.3868028851084),
-  new DataPoint('1619568000', 2647.158189660288),
-  new DataPoint('1619654400', 2748.7845851218613),
-  new DataPoint('1619740800', 2757.497552304977),
-  new DataPoint('1619827200', 2776.70371169874),
-  new DataPoint('1619913600', 2944.9169473185057),
-  new DataPoint('1620000000', 2953.2973480804735),
-  new DataPoint('1620086400', 3439.8550695192603),
-  new DataPoint('1620172800', 3245.663148933579),
-  new DataPoint('1620259200', 3524.562728476055),
-  new DataPoint('1620345600', 3495.0758690360576),
-  new DataPoint('1620432000', 3493.534500000208),
-  new DataPoint('1620518400', 3912.7429165968124),
-  new DataPoint('1620604800', 3932.754068170969),
-  new DataPoint('1620691200', 3979.6086519212827),
-  new DataPoint('1620777600', 4182.790285752286),
-  new DataPoint('1620864000', 3906.108903329409),
-  new DataPoint('1620950400', 3750.3415950592753),
-  new DataPoint('1621036800', 4088.73170832043),
-  new DataPoint('1621123200', 3659.9218442136184),
-  new DataPoint('1621209600', 3602.0048969299023),
-  new DataPoint('1621296000', 3288.2298872378637),
-  new DataPoint('1621382400', 3399.0492796569383),
-  new DataPoint('1621468800', 2505.014945945662),
-  new DataPoint('1621555200', 2778.279660560299),
-  new DataPoint('1621641600', 2419.1032171150196),
-  new DataPoint('1621728000', 2306.371266867117),
-  new DataPoint('1621814400', 2120.0373745099428),
-  new DataPoint('1621900800', 2640.1596323488234),
-  new DataPoint('1621987200', 2695.4778071496326),
-  new DataPoint('1622073600', 2882.483407624011),
-  new DataPoint('1622160000', 2742.990862697615),
-  new DataPoint('1622246400', 2433.328865728611),
-  new DataPoint('1622332800', 2294.626285512794),
-  new DataPoint('1622419200', 2395.8532280027384),
-  new DataPoint('1622505600', 2708.429865793973),
-  new DataPoint('1622592000', 2632.6565998696506),
-  new DataPoint('1622678400', 2717.1540367097723),
-  new DataPoint('1622764800', 2858.27670209791),
-  new DataPoint('1622851200', 2694.4976666790503),
-  new DataPoint('1622937600', 2624.7689150594238),
-  new DataPoint('1623024000', 2711.5479390111605),
-  new DataPoint('1623110400', 2580.5355800598445),
-  new DataPoint('1623196800', 2528.022300878691),
-  new DataPoint('1623283200', 2620.6253893038547),
-  new DataPoint('1623369600', 2486.600068788676),
-  new DataPoint('1623456000', 2356.6347741896757),
-  new DataPoint('1623542400', 2379.991747950219),
-  new DataPoint('1623628800', 2517.771695525423),
-  new DataPoint('1623715200', 2587.381610979154),
-  new DataPoint('1623801600', 2561.1883309320033),
-  new DataPoint('1623888000', 2365.872786190649),
-  new DataPoint('1623974400', 2380.744519633922),
-  new DataPoint('1624060800', 2231.554315497782),
-  new DataPoint('1624147200', 2176.308536317709),
-  new DataPoint('1624233600', 2251.5605593660407),
-  new DataPoint('1624320000', 1900.1222998935382),
-  new DataPoint('1624406400', 1875.3576944712033),
-  new DataPoint('1624492800', 1971.1059779809414),
-  new DataPoint('1624579200', 1990.0761511910587),
-  new DataPoint('1624665600', 1833.4631609981645),
-  new DataPoint('1624752000', 1817.047665540675),
-  new DataPoint('1624838400', 1973.9268648383472),
-  new DataPoint('1624924800', 2087.5187237874175),
-  new DataPoint('1625011200', 2169.400067865984),
-  new DataPoint('1625097600', 2279.354161419647),
-  new DataPoint('1625184000', 2121.657900633364),
-  new DataPoint('1625270400', 2157.880584866453),
-  new DataPoint('1625356800', 2228.532398568573),
-  new DataPoint('1625443200', 2329.004750998825),
-  new DataPoint('1625529600', 2217.3018530598792),
-  new DataPoint('1625616000', 2320.6549288317),
-  new DataPoint('1625702400', 2317.23694270242),
-  new DataPoint('1625788800', 2126.4424673902267),
-  new DataPoint('1625875200', 2156.5809569525845),
-  new DataPoint('1625961600', 2123.0585974934124),
-  new DataPoint('1626048000', 2144.0142572722566),
-  new DataPoint('1626134400', 2042.4991866143628),
-  new DataPoint('1626220800', 1944.3950166372085),
-  new DataPoint('1626307200', 1997.6633136705987),
-  new DataPoint('1626393600', 1910.7269516309964),
-  new DataPoint('1626480000', 1874.2002496808186),
-  new DataPoint('1626566400', 1899.8427500663568),
-  new DataPoint('1626652800', 1905.723382843169),
-  new DataPoint('1626739200', 1824.929392091902),
-  new DataPoint('1626825600', 1794.973425186835),
-  new DataPoint('1626912000', 2003.7239214521073),
-  new DataPoint('1626998400', 2027.5334479167045),
-  new DataPoint('1627084800', 2117.154607794504),
-  new DataPoint('1627171200', 2183.627414557696),
-  new DataPoint('1627257600', 2209.4993601030114),
-  new DataPoint('1627344000', 2230.212067673471),
-  new DataPoint('1627430400', 2292.579636803809),
-  new DataPoint('1627516800', 2299.689405936291),
-  new DataPoint('1627603200', 2383.443259961735),
-  new DataPoint('1627689600', 2462.3999826480103),
-  new DataPoint('1627776000', 2541.674599365905),
-  new DataPoint('1627862400', 2555.408178513038),
-  new DataPoint('1627948800', 2611.6730699481845),
-  new DataPoint('1628035200', 2521.268474889094),
-  new DataPoint('1628121600', 2724.5322427136302),
-  new DataPoint('1628208000', 2821.649692746136),
-  new DataPoint('1628294400', 2888.7322742752317),
-  new DataPoint('1628380800', 3151.2175169176753),
-  new DataPoint('1628467200', 3012.3085592702105),
-  new DataPoint('1628553600', 3163.0646551948857),
-  new DataPoint('1628640000', 3147.842995401753),
-  new DataPoint('1628726400', 3166.6472179679286),
-  new DataPoint('1628812800', 3048.4126816864195),
-  new DataPoint('1628899200', 3323.19799054098),
-  new DataPoint('1628985600', 3268.5481770314927),
-  new DataPoint('1629072000', 3309.7549104132368),
-  new DataPoint('1629158400', 3153.583683763619),
-  new DataPoint('1629244800', 3007.1440271712713),
-  new DataPoint('1629331200', 3037.230251196439),
-  new DataPoint('1629417600', 3144.8184367851927),
-  new DataPoint('1629504000', 3276.9698366433354),
-  new DataPoint('1629590400', 3224.0004601521537),
-  new DataPoint('1629676800', 3243.4863583537394),
-  new DataPoint('1629763200', 3320.4091697810586),
-  new DataPoint('1629849600', 3177.6637963046905),
-  new DataPoint('1629936000', 3231.4414517287996),
-  new DataPoint('1630022400', 3122.971797237849),
-  new DataPoint('1630108800', 3267.539434750998),
-  new DataPoint('1630195200', 3245.430222387629),
-  new DataPoint('1630281600', 3233.383151693551),
-  new DataPoint('1630368000', 3232.7338632854617),
-  new DataPoint('1630454400', 3440.5623358869034),
-  new DataPoint('1630540800', 3790.6139962215557),
-  new DataPoint('1630627200', 3793.3007433464186),
-  new DataPoint('1630713600', 3936.1633916244464),
-  new DataPoint('1630800000', 3894.937511605067),
-  new DataPoint('1630886400', 3950.270344526561),
-  new DataPoint('1630972800', 3943.256785301908),
-  new DataPoint('1631059200', 3440.3417568365676),
-  new DataPoint('1631145600', 3496.859022996073),
-  new DataPoint('1631232000', 3435.97993265133),
-  new DataPoint('1631318400', 3209.915696090501),
-  new DataPoint('1631404800', 3268.1041621348804),
-  new DataPoint('1631491200', 3417.839366766938),
-  new DataPoint('1631577600', 3301.186776828727),
-  new DataPoint('1631664000', 3425.2508733748823),
-  new DataPoint('1631750400', 3595.9625714292315),
-  new DataPoint('1631836800', 3573.3075160249905),
-  new DataPoint('1631923200', 3412.177182421673),
-  new DataPoint('1632009600', 3427.58426153173),
-  new DataPoint('1632096000', 3335.884886514119),
-  new DataPoint('1632182400', 2977.3226793404747),
-  new DataPoint('1632268800', 2744.1109995297),
-  new DataPoint('1632355200', 3074.119761245824),
-  new DataPoint('1632441600', 3159.269865581771),
-  new DataPoint('1632528000', 2930.7427060738946),
-  new DataPoint('1632614400', 2946.9708461401983),
-  new DataPoint('1632700800', 3063.31634471348),
-  new DataPoint('1632787200', 2939.742282853775),
-  new DataPoint('1632873600', 2798.9844172601042),
-  new DataPoint('1632960000', 2855.6117305265157),
-  new DataPoint('1633046400', 3013.4932320320772),
-  new DataPoint('1633132800', 3305.107041443724),
-  new DataPoint('1633219200', 3393.9242492696653),
-  new DataPoint('1633305600', 3426.387080851377),
-  new DataPoint('1633392000', 3390.310407759615),
-  new DataPoint('1633478400', 3520.3422566393974),
-  new DataPoint('1633564800', 3592.1761295000256),
-  new DataPoint('1633651200', 3594.918357967647),
-  new DataPoint('1633737600', 3558.549577083409),
-  new DataPoint('1633824000', 3588.0809215501645),
-  new DataPoint('1633910400', 3431.0193069150096),
-  new DataPoint('1633996800', 3537.840087124068),
-  new DataPoint('1634083200', 3498.1052921206597),
-  new DataPoint('1634169600', 3605.6503342981764),
-  new DataPoint('1634256000', 3794.516888224821),
-  new DataPoint('1634342400', 3885.641764529699),
-  new DataPoint('1634428800', 3854.498461449342),
-  new DataPoint('1634515200', 3854.223686940845),
-  new DataPoint('1634601600', 3752.61872738495),
-  new DataPoint('1634688000', 3884.5872952429017),
-  new DataPoint('1634774400', 4170.107932886265),
-  new DataPoint('1634860800', 4074.8601575202883),
-  new DataPoint('1634947200', 3990.711976433473),
-  new DataPoint('1635033600', 4179.44229816945),
-  new DataPoint('1635120000', 4094.9389934187225),
-  new DataPoint('1635206400', 4230.208371594039),
-  new DataPoint('1635292800', 4152.570288731245),
-  new DataPoint('1635379200', 3944.090861781322),
-  new DataPoint('1635465600', 4288.09721878663),
-  new DataPoint('1635552000', 4422.940535593754),
-  new DataPoint('1635638400', 4324.6099257118785),
-  new DataPoint('1635724800', 4292.04047236198),
-  new DataPoint('1635811200', 4330.553151595248),
-  new DataPoint('1635897600', 4596.59309058429),
-  new DataPoint('1635984000', 4607.699273078144),
-  new DataPoint('1636070400', 4550.014435142697),
-  new DataPoint('1636156800', 4494.80276090967),
-  new DataPoint('1636243200', 4527.104154150622),
-  new DataPoint('1636329600', 4626.6292884486975),
-  new DataPoint('1636416000', 4815.004634322234),
-  new DataPoint('1636502400', 4742.08091060724),
-  new DataPoint('1636588800', 4641.528764849704),
-  new DataPoint('1636675200', 4732.9244503493555),
-  new DataPoint('1636761600', 4685.10635551733),
-  new DataPoint('1636848000', 4666.498498194288),
-  new DataPoint('1636934400', 4652.947394238871),
-  new DataPoint('1637020800', 4583.211418759011),
-  new DataPoint('1637107200', 4243.352906802173),
-  new DataPoint('1637193600', 4302.804958962834),
-  new DataPoint('1637280000', 3993.846595161859),
-  new DataPoint('1637366400', 4317.603195646166),
-  new DataPoint('1637452800', 4436.192766930451),
-  new DataPoint('1637539200', 4319.361566856902),
-  new DataPoint('1637625600', 4101.062876490145),
-  new DataPoint('1637712000', 4355.420957796475),
-  new DataPoint('1637798400', 4269.437219728043),
-  new DataPoint('1637884800', 4515.843300142739),
-  new DataPoint('1637971200', 4048.3128440761725),
-  new DataPoint('1638057600', 4084.0884856959556),
-  new DataPoint('1638144000', 4290.091862536401),
-  new DataPoint('1638230400', 4444.528279821561),
-  new DataPoint('1638316800', 4637.121616831405),
-  new DataPoint('1638403200', 4589.610617539151),
-  new DataPoint('1638489600', 4519.441028028784),
-  new DataPoint('1638576000', 4240.155516808957),
-  new DataPoint('1638662400', 4101.656791810778),
-  new DataPoint('1638748800', 4198.572874562462),
-  new DataPoint('1638835200', 4347.615630598069),
-  new DataPoint('1638921600', 4310.566646424531),
-  new DataPoint('1639008000', 4431.540647139759),
-  new DataPoint('1639094400', 4153.333310724186),
-  new DataPoint('1639180800', 3918.200743402953),
-  new DataPoint('1639267200', 4079.814930569866),
-  new DataPoint('1639353600', 4135.841510137412),
-  new DataPoint('1639440000', 3782.8952622347147),
-  new DataPoint('1639526400', 3858.1644681806974),
-  new DataPoint('1639612800', 4015.72254331389),
-  new DataPoint('1639699200', 3971.5597663421136),
-  new DataPoint('1639785600', 3886.7473617182886),
-  new DataPoint('1639872000', 3966.4253516705508),
-  new DataPoint('1639958400', 3928.8417238716206),
-  new DataPoint('1640044800', 3950.4823919860964),
-  new DataPoint('1640131200', 4036.549717813428),
-  new DataPoint('1640217600', 3992.5945766373156),
-  new DataPoint('1640304000', 4113.529931874606),
-  new DataPoint('1640390400', 4055.1173669313243),
-  new DataPoint('1640476800', 4110.571870853741),
-  new DataPoint('1640563200', 4075.03161894955),
-  new DataPoint('1640649600', 4045.051350119327),
-  new DataPoint('1640736000', 3807.3603674991996),
-  new DataPoint('1640822400', 3644.405516878227),
-  new DataPoint('1640908800', 3714.945456115339),
-  new DataPoint('1640995200', 3686.4025423019352),
-  new DataPoint('1641081600', 3780.315874327848),
-  new DataPoint('1641168000', 3835.3959914939574),
-  new DataPoint('1641254400', 3769.4049401148714),
-  new DataPoint('1641340800', 3794.908130100449),
-  new DataPoint('1641427200', 3556.9062274078738),
-  new DataPoint('1641513600', 3416.8260086159135),
-  new DataPoint('1641600000', 3201.79457434796),
-  new DataPoint('1641686400', 3101.0409016141402),
-  new DataPoint('1641772800', 3156.967262159481),
-  new DataPoint('1641859200', 3086.7290024387257),
-  new DataPoint('1641945600', 3246.413723028553),
-  new DataPoint('1642032000', 3378.0358951715943),
-  new DataPoint('1642118400', 3256.7588661330324),
-  new DataPoint('1642204800', 3311.986061274383),
-  new DataPoint('1642291200', 3331.246655159985),
-  new DataPoint('1642377600', 3356.2954438590405),
-  new DataPoint('1642464000', 3216.592980619574),
-  new DataPoint('1642550400', 3166.4539115046164),
-  new DataPoint('1642636800', 3097.0214660626802),
-  new DataPoint('1642723200', 3015.588777543836),
-  new DataPoint('1642809600', 2564.3433423740635),
-  new DataPoint('1642896000', 2407.377851608285),
-  new DataPoint('1642982400', 2537.836727861043),
-  new DataPoint('1643068800', 2447.831512095295),
-  new DataPoint('1643155200', 2465.21922984942),
-  new DataPoint('1643241600', 2470.4304120157067),
-  new DataPoint('1643328000', 2411.863855325421),
-  new DataPoint('1643414400', 2551.1110735194716),
-  new DataPoint('1643500800', 2603.603872339056),
-  new DataPoint('1643587200', 2610.1824055910874),
-  new DataPoint('1643673600', 2689.2208672204492),
-  new DataPoint('1643760000', 2797.434855273681),
-  new DataPoint('1643846400', 2690.319739476765),
-  new DataPoint('1643932800', 2667.256728215686),
-  new DataPoint('1644019200', 2993.0994395135976),
-  new DataPoint('1644105600', 3018.6733981571506),
-  new DataPoint('1644192000', 3062.8058084507857),
-  new DataPoint('1644278400', 3149.953285509783),
-  new DataPoint('1644364800', 3127.438106740214),
-  new DataPoint('1644451200', 3240.9210444877285),
-  new DataPoint('1644537600', 3081.911501840844),
-  new DataPoint('1644624000', 2930.5631692063735),
-  new DataPoint('1644710400', 2918.0853674291184),
-  new DataPoint('1644796800', 2889.235678281073),
-  new DataPoint('1644883200', 2935.6454998606846),
-  new DataPoint('1644969600', 3179.3002065350443),
-  new DataPoint('1645056000', 3128.640780542462),
-  new DataPoint('1645142400', 2881.613122162859),
-  new DataPoint('1645228800', 2792.3038477186237),
-  new DataPoint('1645315200', 2768.9716520348597),
-  new DataPoint('1645401600', 2632.49139911745),
-  new DataPoint('1645488000', 2574.513383778016),
-  new DataPoint('1645574400', 2644.153655546016),
-  new DataPoint('1645660800', 2594.700959110155),
-  new DataPoint('1645747200', 2599.9335696870216),
-  new DataPoint('1645833600', 2771.890509646429),
-  new DataPoint('1645920000', 2785.3389569017427),
-  new DataPoint('1646006400', 2629.48312082149),
-  new DataPoint('1646092800', 2919.294962425658),
-  new DataPoint('1646179200', 2977.276039756805),
-  new DataPoint('1646265600', 2953.315776286441),
-  new DataPoint('1646352000', 2836.9063366005576),
-  new DataPoint('1646438400', 2619.356137634489),
-  new DataPoint('1646524800', 2668.70597865687),
-  new DataPoint('1646611200', 2558.359874049847),
-  new DataPoint('1646697600', 2498.658864965217),
-  new DataPoint('1646784000', 2576.6271539947625),
-  new DataPoint('1646870400', 2731.037685293996),
-  new DataPoint('1646956800', 2611.4647225047097),
-  new DataPoint('1647043200', 2562.8323535359655),
-  new DataPoint('1647129600', 2579.4581356883637),
-  new DataPoint('1647216000', 2518.492845270615),
-  new DataPoint('1647302400', 2591.5420409591425),
-  new DataPoint('1647388800', 2620.363852420936),
-  new DataPoint('1647475200', 2771.759457292368),
-  new DataPoint('1647561600', 2817.401074966818),
-  new DataPoint('1647648000', 2945.7459101862714),
-  new DataPoint('1647734400', 2947.226158224087),
-  new DataPoint('1647820800', 2860.641960901919),
-  new DataPoint('1647907200', 2896.5869324317464),
-  new DataPoint('1647993600', 2969.78498365825),
-  new DataPoint('1648080000', 3028.8352577107285),
-  new DataPoint('1648166400', 3106.657023584939),
-  new DataPoint('1648252800', 3106.072054158695),
-  new DataPoint('1648339200', 3140.8757105064406),
-  new DataPoint('1648425600', 3285.1730967305425),
-  new DataPoint('1648512000', 3328.9341246867148),
-  new DataPoint('1648598400', 3401.184431040135),
-  new DataPoint('1648684800', 3383.7887617814154),
-  new DataPoint('1648771200', 3283.3028425717257),
-  new DataPoint('1648857600', 3451.1960908672754),
-  new DataPoint('1648944000', 3440.3362384891684),
-  new DataPoint('1649030400', 3521.5847247785246),
-  new DataPoint('1649116800', 3520.9671175043636),
-  new DataPoint('1649203200', 3422.9698837547116),
-  new DataPoint('1649289600', 3171.371104498954),
-  new DataPoint('1649376000', 3232.834988999582),
-  new DataPoint('1649462400', 3192.0250912893603),
-  new DataPoint('1649548800', 3265.938067729151),
-  new DataPoint('1649635200', 3219.159553453764),
-  new DataPoint('1649721600', 2992.7021064252435),
-  new DataPoint('1649808000', 3038.209421996366),
-  new DataPoint('1649894400', 3121.399823462041),
-  new DataPoint('1649980800', 3023.417211885316),
-  new DataPoint('1650067200', 3045.42807480128),
-  new DataPoint('1650153600', 3066.3580141449797),
-  new DataPoint('1650240000', 2995.719421019825),
-  new DataPoint('1650326400', 3061.8905711469047),
-  new DataPoint('1650412800', 3104.688447526111),
-  new DataPoint('1650499200', 3079.6764776018495),
-  new DataPoint('1650585600', 2987.4888760341605),
-  new DataPoint('1650672000', 2967.085285238213),
-  new DataPoint('1650758400', 2940.6879777714407),
-  new DataPoint('1650844800', 2922.901865199808),
-  new DataPoint('1650931200', 3008.3363470853),
-  new DataPoint('1651017600', 2806.748835957046),
-  new DataPoint('1651104000', 2889.5922230230817),
-  new DataPoint('1651190400', 2932.455083612903),
-  new DataPoint('1651276800', 2817.4898821916195),
-  new DataPoint('1651363200', 2738.1741359527714),
-  new DataPoint('1651449600', 2832.513106895354),
-  new DataPoint('1651536000', 2861.3723755560436),
-  new DataPoint('1651622400', 2786.0472478011084),
-  new DataPoint('1651708800', 2942.052313122658),
-  new DataPoint('1651795200', 2753.936566546688),
-  new DataPoint('1651881600', 2699.7072470893745),
-  new DataPoint('1651968000', 2641.229106940243),
-  new DataPoint('1652054400', 2517.8299224886478),
-  new DataPoint('1652140800', 2249.8909622207443),
-  new DataPoint('1652227200', 2344.797715643986),
-  new DataPoint('1652313600', 2080.910243657776),
-  new DataPoint('1652400000', 1966.6991711336661),
-  new DataPoint('1652486400', 2010.214051125259),
-  new DataPoint('1652572800', 2064.229357512243),
-  new DataPoint('1652659200', 2147.047447880575),
-  new DataPoint('1652745600', 2025.8886983912162),
-  new DataPoint('1652832000', 2095.178884796724),
-  new DataPoint('1652918400', 1915.1771232664505),
-  new DataPoint('1653004800', 2023.8482593608173),
-  new DataPoint('1653091200', 1963.9909395294865),
-  new DataPoint('1653177600', 1978.1471325624789),
-  new DataPoint('1653264000', 2046.6463496545232),
-  new DataPoint('1653350400', 1974.5811944790914),
-  new DataPoint('1653436800', 1979.770545006472),
-  new DataPoint('1653523200', 1944.8428445072448),
-  new DataPoint('1653609600', 1807.9694742881136),
-  new DataPoint('1653696000', 1724.8757340323443),
-  new DataPoint('1653782400', 1798.6948545788846),
-  new DataPoint('1653868800', 1814.9831598025937),
-  new DataPoint('1653955200', 1995.9364841552344),
-  new DataPoint('1654041600', 1944.078766836179),
-  new DataPoint('1654128000', 1828.8926546074292),
-  new DataPoint('1654214400', 1833.089840845753),
-  new DataPoint('1654300800', 1776.979907458187),
-  new DataPoint('1654387200', 1804.2616695112486),
-  new DataPoint('1654473600', 1805.3313949894373),
-  new DataPoint('1654560000', 1860.1813068416047),
-  new DataPoint('1654646400', 1818.3877119829308),
-  new DataPoint('1654732800', 1794.539625671828),
-  new DataPoint('1654819200', 1788.4182866616045),
-  new DataPoint('1654905600', 1663.844367412088),
-  new DataPoint('1654992000', 1530.0386174317211),
-  new DataPoint('1655078400', 1454.6867601728409),
-  new DataPoint('1655164800', 1205.5952855404787),
-  new DataPoint('1655251200', 1214.8662649132034),
-  new DataPoint('1655337600', 1230.3643353556051),
-  new DataPoint('1655424000', 1068.6035748646073),
-  new DataPoint('1655510400', 1087.8139244584365),
-  new DataPoint('1655596800', 995.2525692707909),
-  new DataPoint('1655683200', 1125.7540917942745),
-  new DataPoint('1655769600', 1132.0543935828048),
-  new DataPoint('1655856000', 1124.5613920165545),
-  new DataPoint('1655942400', 1051.0740681589236),
-  new DataPoint('1656028800', 1144.4807534808065),
-  new DataPoint('1656115200', 1229.3040854466553),
-  new DataPoint('1656201600', 1244.2862044953927),
-  new DataPoint('1656288000', 1201.237790641909),
-  new DataPoint('1656374400', 1194.2245084746116),
-  new DataPoint('1656460800', 1143.5335357209958),
-  new DataPoint('1656547200', 1098.9055176105344),
-  new DataPoint('1656633600', 1057.6309990608017),
-  new DataPoint('1656720000', 1068.8194401301964),
-  new DataPoint('1656806400', 1068.5415025999594),
-  new DataPoint('1656892800', 1074.6073175787587),
-  new DataPoint('1656979200', 1153.3483147880897),
-  new DataPoint('1657065600', 1134.017069659217),
-  new DataPoint('1657152000', 1188.72564292538),
-  new DataPoint('1657238400', 1240.3784056617153),
-  new DataPoint('1657324800', 1233.5146792602989),
-  new DataPoint('1657411200', 1216.8497068484603),
-  new DataPoint('1657497600', 1169.012707661018),
-  new DataPoint('1657584000', 1097.4494380477286),
-  new DataPoint('1657670400', 1040.7971455029597),
-  new DataPoint('1657756800', 1112.9207827012565),
-  new DataPoint('1657843200', 1191.1308371103116),
-  new DataPoint('1657929600', 1234.0991389763224),
-  new DataPoint('1658016000', 1355.04564021949),
-  new DataPoint('1658102400', 1344.7202840019017),
-  new DataPoint('1658188800', 1570.6589588642053),
-  new DataPoint('1658275200', 1542.6298214332235),
-  new DataPoint('1658361600', 1527.4139307593093),
-  new DataPoint('1658448000', 1576.8252394976823),
-  new DataPoint('1658534400', 1536.124922238913),
-  new DataPoint('1658620800', 1552.4964891908746),
-  new DataPoint('1658707200', 1601.2079670127046),
-  new DataPoint('1658793600', 1450.4822852139405),
-  new DataPoint('1658880000', 1438.9880382230651),
-  new DataPoint('1658966400', 1636.9491814677851),
-  new DataPoint('1659052800', 1723.5485206790597),
-  new DataPoint('1659139200', 1739.0421771356112),
-  new DataPoint('1659225600', 1696.7850982136515),
-  new DataPoint('1659312000', 1682.011373614746),
-  new DataPoint('1659398400', 1636.0185563573557),
-  new DataPoint('1659484800', 1638.3786826572205),
-  new DataPoint('1659571200', 1621.3413236364065),
-  new DataPoint('1659657600', 1612.4189067269824),
-  new DataPoint('1659744000', 1725.3826270211505),
-  new DataPoint('1659830400', 1693.2965918360276),
-  new DataPoint('1659916800', 1699.0064178886953),
-  new DataPoint('1660003200', 1775.7013555270828),
-  new DataPoint('1660089600', 1698.9661290126492),
-  new DataPoint('1660176000', 1852.8785552656473),
-  new DataPoint('1660262400', 1881.4274054352998),
-  new DataPoint('1660348800', 1959.3309247187408),
-  new DataPoint('1660435200', 1982.4118280514233),
-  new DataPoint('1660521600', 1936.7011636052605),
-  new DataPoint('1660608000', 1908.2776419059185),
-  new DataPoint('1660694400', 1880.6001012594395),
-  new DataPoint('1660780800', 1834.8264526426372),
-  new DataPoint('1660867200', 1850.1112910473696),
-  new DataPoint('1660953600', 1618.5325042633535),
-  new DataPoint('1661040000', 1579.4157230953704),
-  new DataPoint('1661126400', 1624.149982884847),
-  new DataPoint('1661212800', 1622.30703457785),
-  new DataPoint('1661299200', 1665.7919073919315),
-  new DataPoint('1661385600', 1657.7936424663385),
-  new DataPoint('1661472000', 1697.0769719636442),
-  new DataPoint('1661558400', 1510.1891114840514),
-  new DataPoint('1661644800', 1496.0554659420902),
-  new DataPoint('1661731200', 1438.7470503278116),
-  new DataPoint('1661817600', 1555.1774560415913),
-  new DataPoint('1661904000', 1525.400116232047),
-  new DataPoint('1661990400', 1552.5629662281337),
-  new DataPoint('1662076800', 1588.9803510869067),
-  new DataPoint('1662163200', 1575.1766307276075),
-  new DataPoint('1662249600', 1555.6740772078124),
-  new DataPoint('1662336000', 1578.9493013433012),
-  new DataPoint('1662422400', 1617.9354554854337),
-  new DataPoint('1662508800', 1564.5589540302462),
-  new DataPoint('1662595200', 1629.8832311636493),
-  new DataPoint('1662681600', 1635.9321760130483),
-  new DataPoint('1662768000', 1717.0769569840472),
-  new DataPoint('1662854400', 1779.5190288833046),
-  new DataPoint('1662940800', 1761.317355880691),
-  new DataPoint('1663027200', 1710.1642908515214),
-  new DataPoint('1663113600', 1573.2052136951713),
-  new DataPoint('1663200000', 1635.3682061921256),
-  new DataPoint('1663286400', 1471.999592516298),
-  new DataPoint('1663372800', 1432.215807478607),
-  new DataPoint('1663459200', 1471.2039553630448),
-  new DataPoint('1663545600', 1335.8525523850524),
-  new DataPoint('1663632000', 1379.920704526258),
-  new DataPoint('1663718400', 1324.1905646155858),
-  new DataPoint('1663804800', 1252.7745621685783),
-  new DataPoint('1663891200', 1330.7927929218301),
-  new DataPoint('1663977600', 1329.558806730321),
-  new DataPoint('1664064000', 1318.099347021849),
-  new DataPoint('1664150400', 1294.0750952797787),
-  new DataPoint('1664236800', 1335.1212051991713),
-  new DataPoint('1664323200', 1331.1501769338627),
-  new DataPoint('1664409600', 1340.0230594816517),
-  new DataPoint('1664496000', 1335.7389706335669),
-  new DataPoint('1664582400', 1329.1460320707963),
-  new DataPoint('1664668800', 1311.2633244162857),
-  new DataPoint('1664755200', 1277.901345279672),
-  new DataPoint('1664841600', 1323.5040179722914),
-  new DataPoint('1664928000', 1363.2371821945037),
-  new DataPoint('1665014400', 1352.5865243024869),
-  new DataPoint('1665100800', 1351.4273691979538),
-  new DataPoint('1665187200', 1324.8947380290601),
-  new DataPoint('1665273600', 1315.857799905668),
-  new DataPoint('1665360000', 1322.2697552193713),
-  new DataPoint('1665446400', 1291.0816596695552),
-  new DataPoint('1665532800', 1279.8833075472612),
-  new DataPoint('1665619200', 1294.2710513882173),
-  new DataPoint('1665705600', 1288.1640147020812),
-  new DataPoint('1665792000', 1297.6276053223842),
-  new DataPoint('1665878400', 1275.6937773947975),
-  new DataPoint('1665964800', 1306.943118828839),
-  new DataPoint('1666051200', 1333.4408776301655),
-  new DataPoint('1666137600', 1311.8067255158232),
-  new DataPoint('1666224000', 1284.654933702257),
-  new DataPoint('1666310400', 1282.0426467759612),
-  new DataPoint('1666396800', 1299.8019052506386),
-  new DataPoint('1666483200', 1313.767778723105),
-  new DataPoint('1666569600', 1364.4868713063736),
-  new DataPoint('1666656000', 1343.334491985092),
-  new DataPoint('1666742400', 1462.0489375629863),
-  new DataPoint('1666828800', 1568.7475855708392),
-  new DataPoint('1666915200', 1514.8635252533977),
-  new DataPoint('1667001600', 1555.0292135813938),
-  new DataPoint('1667088000', 1619.4295836277443),
-  new DataPoint('1667174400', 1591.0517734961002),
-  new DataPoint('1667260800', 1572.979514885975),
-  new DataPoint('1667347200', 1580.3787334402593),
-  new DataPoint('1667433600', 1520.6383643789845),
-  new DataPoint('1667520000', 1531.112630741574),
-  new DataPoint('1667606400', 1644.1928578089398),
-  new DataPoint('1667692800', 1626.8064304933644),
-  new DataPoint('1667779200', 1572.9477769721586),
-  new DataPoint('1667865600', 1569.9886360033397),
-  new DataPoint('1667952000', 1334.2879331082395),
-  new DataPoint('1668038400', 1095.1839771132936),
-  new DataPoint('1668124800', 1301.5538803074423),
-  new DataPoint('1668211200', 1293.9115948871518),
-  new DataPoint('1668297600', 1255.6010507578437),
-  new DataPoint('1668384000', 1223.0064433283683),
-  new DataPoint('1668470400', 1241.997092728311),
-  new DataPoint('1668556800', 1252.7067308366848),
-  new DataPoint('1668643200', 1217.7020892163014),
-  new DataPoint('1668729600', 1201.7898419641292),
-  new DataPoint('1668816000', 1213.49631006335),
-  new DataPoint('1668902400', 1218.8936571112463),
-  new DataPoint('1668988800', 1144.2531525085535),
-  new DataPoint('1669075200', 1110.2882130124592),
-  new DataPoint('1669161600', 1135.175811894246),
-  new DataPoint('1669248000', 1184.4617581029652),
-  new DataPoint('1669334400', 1204.2078028331202),
-  new DataPoint('1669420800', 1198.9755884889066),
-  new DataPoint('1669507200', 1205.6579602157142),
-  new DataPoint('1669593600', 1196.1962195659255),
-  new DataPoint('1669680000', 1170.115741471507),
-  new DataPoint('1669766400', 1216.936420693739),
-  new DataPoint('1669852800', 1298.94077037352),
-  new DataPoint('1669939200', 1276.6393714030964),
-  new DataPoint('1670025600', 1293.9480231782143),
-  new DataPoint('1670112000', 1243.0408423289737),
-  new DataPoint('1670198400', 1282.4164481394064),
-  new DataPoint('1670284800', 1259.7575748565346),
-  new DataPoint('1670371200', 1271.9354761263946),
-  new DataPoint('1670457600', 1233.6250483990402),
-  new DataPoint('1670544000', 1281.210637067264),
-  new DataPoint('1670630400', 1264.4773467215684),
-  new DataPoint('1670716800', 1264.7922793495136),
-  new DataPoint('1670803200', 1264.317985551174),
-  new DataPoint('1670889600', 1275.332421155143),
-  new DataPoint('1670976000', 1319.413007743119),
-  new DataPoint('1671062400', 1308.4001523403851),
-  new DataPoint('1671148800', 1263.7464240856877),
-  new DataPoint('1671235200', 1165.9737772823325),
-  new DataPoint('1671321600', 1189.4275215641987),
-  new DataPoint('1671408000', 1186.7779210362507),
-  new DataPoint('1671494400', 1166.9895905156618),
-  new DataPoint('1671580800', 1217.8888916641765),
-  new DataPoint('1671667200', 1213.3431612255224),
-  new DataPoint('1671753600', 1217.8525497108176),
-  new DataPoint('1671840000', 1220.701744919786),
-  new DataPoint('1671926400', 1221.3595303484499),
-  new DataPoint('1672012800', 1219.286343216304),
-  new DataPoint('1672099200', 1226.2534148310056),
-  new DataPoint('1672185600', 1211.819562063861),
-  new DataPoint('1672272000', 1188.7286638821608),
-  new DataPoint('1672358400', 1201.5431060594274),
-  new DataPoint('1672444800', 1199.1104971711857),
-  new DataPoint('1672531200', 1196.6130648084502),
-  new DataPoint('1672617600', 1200.65921690107),
-  new DataPoint('1672704000', 1214.3789459253508),
-  new DataPoint('1672790400', 1214.760969419338),
-  new DataPoint('1672876800', 1256.4366037834864),
-  new DataPoint('1672963200', 1250.7922522355914),
-  new DataPoint('1673049600', 1270.028610178057),
-  new DataPoint('1673136000', 1264.8369433837202),
-  new DataPoint('1673222400', 1284.5754041342987),
-  new DataPoint('1673308800', 1321.676571173056),
-  new DataPoint('1673395200', 1336.017071771777),
-  new DataPoint('1673481600', 1389.7716620941067),
-  new DataPoint('1673568000', 1417.134908743914),
-  new DataPoint('1673654400', 1453.3769102089225),
-  new DataPoint('1673740800', 1549.111474081304),
-  new DataPoint('1673827200', 1551.324517175301),
-  new DataPoint('1673913600', 1577.725890482971),
-  new DataPoint('1674000000', 1569.5308332272923),
-  new DataPoint('1674086400', 1516.555475473704),
-  new DataPoint('1674172800', 1550.5088875585636),
-  new DataPoint('1674259200', 1661.3349193405402),
-  new DataPoint('1674345600', 1625.9093109886562),
-  new DataPoint('1674432000', 1630.8448549407967),
-  new DataPoint('1674518400', 1632.9617267135266),
-  new DataPoint('1674604800', 1557.0597608721732),
-  new DataPoint('1674691200', 1614.6771850629295),
-  new DataPoint('1674777600', 1602.8469492523193),
-  new DataPoint('1674864000', 1598.4701935450053),
-  new DataPoint('1674950400', 1573.0634394330648),
-  new DataPoint('1675036800', 1646.5159900930198),
-  new DataPoint('1675123200', 1568.64771349631),
-  new DataPoint('1675209600', 1586.5395765836909),
-  new DataPoint('1675296000', 1642.857168158598),
-  new DataPoint('1675382400', 1648.6796840768716),
-  new DataPoint('1675468800', 1665.4278712238624),
-  new DataPoint('1675555200', 1667.2716925637008),
-  new DataPoint('1675641600', 1631.3725233636533),
-  new DataPoint('1675728000', 1617.144163289206),
-  new DataPoint('1675814400', 1672.8226777758136),
-  new DataPoint('1675900800', 1651.4083786023796),
-  new DataPoint('1675987200', 1546.383768658398),
-  new DataPoint('1676073600', 1515.5340268615535),
-  new DataPoint('1676160000', 1541.9688769412712),
-  new DataPoint('1676246400', 1515.3346311806397),
-  new DataPoint('1676332800', 1506.9162010135053),
-  new DataPoint('1676419200', 1556.963484345393),
-  new DataPoint('1676505600', 1674.858207473528),
-  new DataPoint('1676592000', 1646.143501886728),
-  new DataPoint('1676678400', 1697.0848665737892),
-  new DataPoint('1676764800', 1692.518962831222),
-  new DataPoint('1676851200', 1680.3786857000732),
-  new DataPoint('1676937600', 1700.1986814992663),
-  new DataPoint('1677024000', 1656.582369571119),
-  new DataPoint('1677110400', 1643.1733937453491),
-  new DataPoint('1677196800', 1651.850006691427),
-  new DataPoint('1677283200', 1608.1034936538365),
-  new DataPoint('1677369600', 1593.9519737908456),
-  new DataPoint('1677456000', 1640.5827101943062),
-  new DataPoint('1677542400', 1633.9766289833817),
-  new DataPoint('1677628800', 1606.632639454843),
-  new DataPoint('1677715200', 1663.925777294461),
-  new DataPoint('1677801600', 1647.6646669077718),
-  new DataPoint('1677888000', 1570.668210599776),
-  new DataPoint('1677974400', 1568.4956010562191),
-  new DataPoint('1678060800', 1563.2256620056303),
-  new DataPoint('1678147200', 1567.3501465252189),
-  new DataPoint('1678233600', 1563.8131822475007),
-  new DataPoint('1678320000', 1535.2602520971097),
-  new DataPoint('1678406400', 1440.1676618801841),
-  new DataPoint('1678492800', 1429.6031691041849),
-  new DataPoint('1678579200', 1474.40324440156),
-  new DataPoint('1678665600', 1588.1968020530471),
-  new DataPoint('1678752000', 1678.915634393308),
-  new DataPoint('1678838400', 1708.300897366666),
-  new DataPoint('1678924800', 1658.0701085663115),
-  new DataPoint('1679011200', 1679.7924762080895),
-  new DataPoint('1679097600', 1793.2988017342332),
-  new DataPoint('1679184000', 1769.4253269123851),
-  new DataPoint('1679270400', 1801.3674190114587),
-  new DataPoint('1679356800', 1744.4414599600184),
-  new DataPoint('1679443200', 1811.4112436682735),
-  new DataPoint('1679529600', 1747.6400281141143),
-  new DataPoint('1679616000', 1824.9566578949327),
-  new DataPoint('1679702400', 1751.2194078261725),
-  new DataPoint('1679788800', 1753.982636507409),
-  new DataPoint('1679875200', 1776.867690456723),
-  new DataPoint('1679961600', 1719.1709726748606),
-  new DataPoint('1680048000', 1776.0436393298319),
-  new DataPoint('1680134400', 1795.5369478273235),
-  new DataPoint('1680220800', 1792.9085783080432),
-  new DataPoint('1680307200', 1824.0200055528176),
-  new DataPoint('1680393600', 1823.0003798253083),
-  new DataPoint('1680480000', 1797.7369883938552),
-  new DataPoint('1680566400', 1810.466255484756),
-  new DataPoint('1680652800', 1871.333525898643),
-  new DataPoint('1680739200', 1911.3386899517511),
-  new DataPoint('1680825600', 1872.2466823679094),
-  new DataPoint('1680912000', 1866.6575447874154),
-  new DataPoint('1680998400', 1851.0506710706206),
-  new DataPoint('1681084800', 1859.9403872878142),
-  new DataPoint('1681171200', 1909.8820609415914),
-  new DataPoint('1681257600', 1892.938911069582),
-  new DataPoint('1681344000', 1920.2230311931223),
-  new DataPoint('1681430400', 2012.785415162006),
-  new DataPoint('1681516800', 2102.9461882949076),
-  new DataPoint('1681603200', 2093.166331331955),
-  new DataPoint('1681689600', 2118.5987891538853),
-  new DataPoint('1681776000', 2077.5356646371833),
-  new DataPoint('1681862400', 2103.2788135921514),
-  new DataPoint('1681948800', 1936.4259207983632),
-  new DataPoint('1682035200', 1943.4355981925776),
-  new DataPoint('1682121600', 1850.1497384242152),
-  new DataPoint('1682208000', 1877.5413280611456),
-  new DataPoint('1682294400', 1863.6391422142244),
-  new DataPoint('1682380800', 1842.6307920871575),
-  new DataPoint('1682467200', 1870.5652231230274),
-  new DataPoint('1682553600', 1867.5893250124868),
-  new DataPoint('1682640000', 1910.456779102895),
-  new DataPoint('1682726400', 1894.4280839501073),
-  new DataPoint('1682812800', 1905.2738522732104),
-  new DataPoint('1682899200', 1885.3919353369215),
-  new DataPoint('1682985600', 1832.725799406749),
-  new DataPoint('1683072000', 1870.828572787594),
-  new DataPoint('1683158400', 1903.7282107352776),
-  new DataPoint('1683244800', 1877.4011950525364),
-  new DataPoint('1683331200', 1993.6129657474344),
-  new DataPoint('1683417600', 1900.410599025731),
-  new DataPoint('1683504000', 1895.2301480548908),
-  new DataPoint('1683590400', 1849.2886295625283),
-  new DataPoint('1683676800', 1846.0642640231483),
-  new DataPoint('1683763200', 1842.865558834664),
-  new DataPoint('1683849600', 1798.0719455262627),
-  new DataPoint('1683936000', 1808.6949999015692),
-  new DataPoint('1684022400', 1797.1994701376498),
-  new DataPoint('1684108800', 1799.0086586150053),
-  new DataPoint('1684195200', 1820.0447595407188),
-  new DataPoint('1684281600', 1823.6630183475188),
-  new DataPoint('1684368000', 1821.050634709663),
-  new DataPoint('1684454400', 1802.3909554834493),
-  new DataPoint('1684479079', 1805.9171324858278),
-  new DataPoint('1684540800', 1812.1317035605853),
-  new DataPoint('1684627200', 1818.9695295035847),
-  new DataPoint('1684652701', 1815.482024396895),
-];
-
-/**
- * Performs a binary search on the dataPoints array to find the closest timestamp.
+ * Finds the historical price closest to a timestamp in a fallback table.
+ * @param timestamps The table timestamps, ascending.
+ * @param values The table prices, indexed like timestamps.
  * @param target The target timestamp to search for.
- * @returns The ETH/USD price value for the closest timestamp, or -1 if not found.
+ * @returns The price for the closest timestamp, or -1 if the table is empty.
  */
-export function binarySearch(target: BigInt): number {
-  let left = 0;
-  let right = dataPoints.length - 1;
-  let closest = dataPoints[0].timestamp;
-  let closestDiff = target.minus(closest).abs();
-
-  while (left <= right) {
-    let mid = left + Math.floor((right - left) / 2);
-    let diff = target.minus(dataPoints[i32(mid)].timestamp).abs();
-
-    if (diff.lt(closestDiff)) {
-      closest = dataPoints[i32(mid)].timestamp;
-      closestDiff = diff;
-    }
+export function binarySearch(timestamps: StaticArray<i64>, values: StaticArray<f64>, target: BigInt): number {
+  let count = timestamps.length;
+  if (count == 0) {
+    return -1;
+  }
 
-    if (dataPoints[i32(mid)].timestamp.equals(target)) {
-      return dataPoints[i32(mid)].value;
-    }
+  let timestamp = target.toI64();
+  let left = 0;
+  let right = count - 1;
 
-    if (dataPoints[i32(mid)].timestamp.lt(target)) {
-      left = i32(mid + 1);
+  // Find the first data point at or after the target, or the last data point
+  while (left < right) {
+    let mid = left + (right - left) / 2;
+    if (timestamps[mid] < timestamp) {
+      left = mid + 1;
     } else {
-      right = i32(mid - 1);
+      right = mid;
     }
   }
 
-  // Return the value of the closest timestamp
-  for (let i = 0; i < dataPoints.length; i++) {
-    if (dataPoints[i].timestamp.equals(closest)) {
-      return dataPoints[i].value;
-    }
+  // The closest data point is either that one or the one before it
+  if (left > 0 && timestamp - timestamps[left - 1] < timestamps[left] - timestamp) {
+    return values[left - 1];
   }
-
-  // Return a special value if no match was found
-  return -1;
+  return values[left];
 }
 
 /**
- * Converts a number to the scale used by the oracle.
+ * Converts a number to the scale used by a feed.
  * @param value The value to convert.
+ * @param decimals The feed's decimals.
  * @returns The scaled value as a BigInt.
  */
-function convertToOracleScale(value: number): BigInt {
+function convertToFeedScale(value: number, decimals: i32): BigInt {
   let bigDecimalValue = BigDecimal.fromString(value.toString());
-  let scaledValue = bigDecimalValue.times(BigDecimal.fromString('100000000'));
+  let scaledValue = bigDecimalValue.times(getFeedScale(decimals));
   return BigInt.fromString(scaledValue.toString().split('.')[0]);
 }
 
+/**
+ * Gets the factor between a feed's answers and prices in dollars.
+ * @param decimals The feed's decimals.
+ * @returns 10 to the power of decimals as a BigDecimal.
+ */
+function getFeedScale(decimals: i32): BigDecimal {
+  return BigInt.fromI32(10).pow(u8(decimals)).toBigDecimal();
+}
+
+/**
+ * Looks up the price of a feed for a given timestamp and block number.
+ * Uses the Chainlink round in effect at the block, falling back to the feed's bundled table.
+ * @param feed The feed from the registry.
+ * @param timestamp The timestamp to query.
+ * @param blockNumber The block number to query.
+ * @returns The price with the feed's decimals as a BigInt, or null if not found.
+ */
+function lookupPrice(feed: ChainlinkFeed, timestamp: BigInt, blockNumber: BigInt): BigInt | null {
+  let price = getChainlinkPrice(feed, blockNumber, timestamp);
+  if (price) {
+    return price;
+  }
+
+  let value = binarySearch(feed.fallbackTimestamps, feed.fallbackValues, timestamp);
+  if (value > 0) {
+    return convertToFeedScale(value, feed.decimals);
+  }
+  return null;
+}
+
+/**
+ * Retrieves the price of a registered feed for a given timestamp and block number.
+ * Reads the feed's PriceFeed and PriceRound entities, so no per-block copy is stored.
+ * @param pair The price pair, e.g. ETH/USD.
+ * @param timestamp The timestamp to query.
+ * @param blockNumber The block number to query.
+ * @returns The price with the feed's decimals as a BigInt, or null if not found.
+ */
+export function PriceValue(pair: string, timestamp: BigInt, blockNumber: BigInt): BigInt | null {
+  let feed = getChainlinkFeed(pair);
+  return feed ? lookupPrice(feed, timestamp, blockNumber) : null;
+}
+
 /**
  * Retrieves the USD value of ETH for a given timestamp and block number.
  * @param timestamp The timestamp to query.
  * @param blockNumber The block number to query.
- * @returns The USD value of ETH as a BigInt, or -1 if not found.
+ * @returns The USD value of ETH as a BigInt with 8 decimals, or null if not found.
  */
-export function USDValue(timestamp: BigInt, blockNumber: BigInt): BigInt {
-  if (blockNumber.ge(EACAggregatorProxyStartBlock)) {
-    let latestPrice = getLatestPrice(blockNumber);
-    if (latestPrice.gt(BigInt.fromI32(0))) {
-      return latestPrice;
-    }
+export function USDValue(timestamp: BigInt, blockNumber: BigInt): BigInt | null {
+  return PriceValue(PRICE_PAIR_ETH_USD, timestamp, blockNumber);
+}
+
+/**
+ * Retrieves the price of ETH in the base currency of a USD pair, e.g. EUR for EUR/USD.
+ * @param pair The USD price pair.
+ * @param timestamp The timestamp to query.
+ * @param blockNumber The block number to query.
+ * @returns The price of one ETH in the currency as a BigDecimal, or null if either price is unknown.
+ */
+export function ETHPrice(pair: string, timestamp: BigInt, blockNumber: BigInt): BigDecimal | null {
+  let ethUsd = toEthUsdPrice(USDValue(timestamp, blockNumber));
+  let quote = PriceValue(pair, timestamp, blockNumber);
+  let feed = getChainlinkFeed(pair);
+  if (!ethUsd || !quote || !feed || quote.isZero()) {
+    return null;
+  }
+
+  return ethUsd.times(getFeedScale(feed.decimals)).div(quote.toBigDecimal());
+}
+
+/**
+ * Converts a wei amount to another currency.
+ * @param value The amount in wei.
+ * @param ethPrice The price of one ETH in the currency, as returned by ETHPrice.
+ * @returns The amount in the currency as a BigDecimal, or null if the price is unknown.
+ */
+function toCurrencyAmount(value: BigInt, ethPrice: BigDecimal | null): BigDecimal | null {
+  if (!ethPrice) {
+    return null;
   }
 
-  let usd = binarySearch(timestamp);
-  if (usd > 0) {
-    return convertToOracleScale(usd);
+  return value.toBigDecimal().times(ethPrice).div(BigInt.fromI32(10).pow(18).toBigDecimal());
+}
+
+/**
+ * Converts an oracle-scaled ETH/USD price to dollars per ETH.
+ * @param usd The ETH/USD price as returned by USDValue.
+ * @returns The price as a BigDecimal, or null if the price is unknown.
+ */
+export function toEthUsdPrice(usd: BigInt | null): BigDecimal | null {
+  if (!usd) {
+    return null;
   }
-  return BigInt.fromI32(-1);
+
+  return usd.toBigDecimal().div(BigInt.fromI32(10).pow(8).toBigDecimal());
+}
+
+/**
+ * Converts a wei amount to US dollars using an oracle-scaled ETH/USD price.
+ * @param value The amount in wei.
+ * @param usd The ETH/USD price as returned by USDValue, once known.
+ * @returns The dollar amount as a BigDecimal.
+ */
+export function toUSDAmount(value: BigInt, usd: BigInt): BigDecimal {
+  let scale = BigInt.fromI32(10).pow(26).toBigDecimal();
+  return value.times(usd).toBigDecimal().div(scale);
+}
+
+/**
+ * Sets the ETH/USD price fields of an Event, Listing or Bid.
+ * @param entity The entity, with its value already set.
+ * @param timestamp The block timestamp.
+ * @param blockNumber The block number.
+ */
+export function setUSDValues<T>(entity: T, timestamp: BigInt, blockNumber: BigInt): void {
+  let usd = USDValue(timestamp, blockNumber);
+  entity.usd = usd;
+  entity.ethUsdPrice = toEthUsdPrice(usd);
+  entity.valueUsd = usd ? toUSDAmount(entity.value, usd as BigInt) : null;
+}
+
+/**
+ * Sets the EUR, GBP, JPY and BTC values of an Event.
+ * @param evnt The Event entity, with its value already set.
+ * @param timestamp The block timestamp.
+ * @param blockNumber The block number.
+ */
+export function setCurrencyValues(evnt: Event, timestamp: BigInt, blockNumber: BigInt): void {
+  evnt.valueEur = toCurrencyAmount(evnt.value, ETHPrice(PRICE_PAIR_EUR_USD, timestamp, blockNumber));
+  evnt.valueGbp = toCurrencyAmount(evnt.value, ETHPrice(PRICE_PAIR_GBP_USD, timestamp, blockNumber));
+  evnt.valueJpy = toCurrencyAmount(evnt.value, ETHPrice(PRICE_PAIR_JPY_USD, timestamp, blockNumber));
+  evnt.valueBtc = toCurrencyAmount(evnt.value, ETHPrice(PRICE_PAIR_BTC_USD, timestamp, blockNumber));
+}
+
+/**
+ * Sets the ETH price fields of the daily State in every supported currency.
+ * @param state The State entity.
+ * @param timestamp The block timestamp.
+ * @param blockNumber The block number.
+ */
+export function setStatePrices(state: State, timestamp: BigInt, blockNumber: BigInt): void {
+  state.usd = USDValue(timestamp, blockNumber);
+  state.ethUsdPrice = toEthUsdPrice(state.usd);
+  state.ethEurPrice = ETHPrice(PRICE_PAIR_EUR_USD, timestamp, blockNumber);
+  state.ethGbpPrice = ETHPrice(PRICE_PAIR_GBP_USD, timestamp, blockNumber);
+  state.ethJpyPrice = ETHPrice(PRICE_PAIR_JPY_USD, timestamp, blockNumber);
+  state.ethBtcPrice = ETHPrice(PRICE_PAIR_BTC_USD, timestamp, blockNumber);
 }
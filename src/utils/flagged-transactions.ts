@@ -0,0 +1,44 @@
+/**
+ * @file flagged-transactions.ts
+ * @description Applies the manually curated wash trade and spam list to Events.
+ */
+
+import { Event, FlaggedTransaction } from '../../generated/schema';
+
+import { flaggedTransactionHashes, flaggedTransactionNotes, flaggedTransactionReasons } from './flagged-data';
+
+/**
+ * Flags an Event if its transaction is on the manual override list, and records
+ * the override as a FlaggedTransaction. The caller saves the Event.
+ * @param evnt - The Event entity, with its block and transaction fields set.
+ * @returns True if the Event was flagged.
+ */
+export function applyManualFlag(evnt: Event): boolean {
+  let hash = evnt.transactionHash.toHexString();
+  let index = flaggedTransactionHashes.indexOf(hash);
+  if (index == -1) return false;
+
+  let reason = flaggedTransactionReasons[index];
+
+  let flaggedTransaction = FlaggedTransaction.load(hash);
+  if (flaggedTransaction == null) {
+    flaggedTransaction = new FlaggedTransaction(hash);
+    flaggedTransaction.transactionHash = evnt.transactionHash;
+    flaggedTransaction.reason = reason;
+    flaggedTransaction.note = flaggedTransactionNotes[index];
+    flaggedTransaction.blockNumber = evnt.blockNumber;
+    flaggedTransaction.blockTimestamp = evnt.blockTimestamp;
+    flaggedTransaction.save();
+  }
+
+  let flagReasons: string[] = [];
+  let prevFlagReasons = evnt.flagReasons;
+  if (prevFlagReasons) flagReasons = prevFlagReasons;
+  if (flagReasons.indexOf(reason) == -1) flagReasons.push(reason);
+
+  evnt.isFlagged = true;
+  evnt.flagReasons = flagReasons;
+  evnt.flaggedTransaction = hash;
+
+  return true;
+}
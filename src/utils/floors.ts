@@ -0,0 +1,176 @@
+/**
+ * @file floors.ts
+ * @description Floor price methodologies computed from a ListingBook: the lowest listing,
+ * the average of the cheapest listings, a low percentile, and a floor that leaves out
+ * sellers who recently listed and delisted within minutes.
+ *
+ * The percentile is kept up to date by splitting the public listings into two books: the
+ * cheapest FLOOR_PERCENTILE percent, stored negated so its root is the most expensive of
+ * them, and the rest. Each listing change moves at most a few roots between them.
+ */
+
+import { BigInt } from '@graphprotocol/graph-ts';
+
+import { Account, ActiveListing, Listing, ListingBook, ListingHeapNode } from '../../generated/schema';
+
+import {
+  BIGINT_ZERO,
+  FLOOR_AVERAGE_LISTINGS,
+  FLOOR_PERCENTILE,
+  FILTERED_FLOOR_MAX_LISTINGS,
+  PERCENTILE_HIGH_BOOK_ID,
+  PERCENTILE_LOW_BOOK_ID,
+  QUICK_DELIST_LOOKBACK,
+} from './constants';
+import { addActiveListing, getCheapestListings, getOrCreateListingBook, removeActiveListing } from './listing-index';
+
+/**
+ * Accepts every listing.
+ * @param node - The ListingHeapNode entity.
+ * @returns Always true.
+ */
+function acceptAll(node: ListingHeapNode): boolean {
+  return true;
+}
+
+let filterTimestamp: BigInt;
+/**
+ * Checks that a listing's seller has not quickly delisted within QUICK_DELIST_LOOKBACK
+ * of filterTimestamp.
+ * @param node - The ListingHeapNode entity.
+ * @returns True if the listing counts towards the filtered floor.
+ */
+function isFromSteadySeller(node: ListingHeapNode): boolean {
+  let activeListing = ActiveListing.load(node.activeListing);
+  if (!activeListing) return false;
+
+  let listing = Listing.load(activeListing.listing);
+  if (!listing) return false;
+
+  let account = Account.load(listing.fromAccount);
+  if (!account) return true;
+
+  let lastQuickDelistTimestamp = account.lastQuickDelistTimestamp;
+  if (!lastQuickDelistTimestamp) return true;
+  return filterTimestamp.minus(lastQuickDelistTimestamp).gt(QUICK_DELIST_LOOKBACK);
+}
+
+/**
+ * Gets the lowest listing of a book.
+ * @param book - The ListingBook entity.
+ * @returns The floor price as a BigInt, or zero if nothing is listed.
+ */
+export function getLowestFloor(book: ListingBook): BigInt {
+  let floor = book.floor;
+  return floor ? floor : BIGINT_ZERO;
+}
+
+/**
+ * Gets the average of the FLOOR_AVERAGE_LISTINGS cheapest listings of a book.
+ * @param book - The ListingBook entity.
+ * @returns The average price as a BigInt, or zero if nothing is listed.
+ */
+export function getAverageFloor(book: ListingBook): BigInt {
+  let nodes = getCheapestListings(book, FLOOR_AVERAGE_LISTINGS, acceptAll);
+  if (nodes.length == 0) return BIGINT_ZERO;
+
+  let total = BIGINT_ZERO;
+  for (let i = 0; i < nodes.length; i++) {
+    total = total.plus(nodes[i].value);
+  }
+
+  return total.div(BigInt.fromI32(nodes.length));
+}
+
+/**
+ * Moves the root listing of one percentile book to the other, flipping the sign of its value.
+ * @param from - The ListingBook entity to take the root from.
+ * @param toId - The ID of the ListingBook to add it to.
+ */
+function moveRoot(from: ListingBook, toId: string): void {
+  let root = getCheapestListings(from, 1, acceptAll)[0];
+  let punkId = (ActiveListing.load(root.activeListing) as ActiveListing).listing;
+
+  removeActiveListing(from.id, punkId);
+  addActiveListing(toId, punkId, root.value.neg());
+}
+
+/**
+ * Moves roots between the percentile books until the low book holds exactly the
+ * cheapest FLOOR_PERCENTILE percent of listings.
+ */
+function rebalancePercentileBooks(): void {
+  let low = getOrCreateListingBook(PERCENTILE_LOW_BOOK_ID);
+  let high = getOrCreateListingBook(PERCENTILE_HIGH_BOOK_ID);
+
+  // Rank of the percentile listing, rounded up so it is at least the cheapest one
+  let rank = ((low.size + high.size) * FLOOR_PERCENTILE + 99) / 100;
+
+  while (low.size > rank) {
+    moveRoot(low, PERCENTILE_HIGH_BOOK_ID);
+    low = getOrCreateListingBook(PERCENTILE_LOW_BOOK_ID);
+  }
+  while (low.size < rank) {
+    moveRoot(high, PERCENTILE_LOW_BOOK_ID);
+    low = getOrCreateListingBook(PERCENTILE_LOW_BOOK_ID);
+    high = getOrCreateListingBook(PERCENTILE_HIGH_BOOK_ID);
+  }
+}
+
+/**
+ * Adds a public listing to the percentile books, or updates its value if already listed.
+ * @param punkId - The punk ID.
+ * @param value - The listing value in wei.
+ */
+export function addPercentileListing(punkId: string, value: BigInt): void {
+  removeActiveListing(PERCENTILE_LOW_BOOK_ID, punkId);
+  removeActiveListing(PERCENTILE_HIGH_BOOK_ID, punkId);
+
+  if (value.gt(BIGINT_ZERO)) {
+    let low = getOrCreateListingBook(PERCENTILE_LOW_BOOK_ID);
+    // The low book's floor is its most expensive listing, negated
+    let lowFloor = low.floor;
+    if (lowFloor && value.le(lowFloor.neg())) {
+      addActiveListing(PERCENTILE_LOW_BOOK_ID, punkId, value.neg());
+    } else {
+      addActiveListing(PERCENTILE_HIGH_BOOK_ID, punkId, value);
+    }
+  }
+
+  rebalancePercentileBooks();
+}
+
+/**
+ * Removes a listing from the percentile books.
+ * @param punkId - The punk ID.
+ */
+export function removePercentileListing(punkId: string): void {
+  removeActiveListing(PERCENTILE_LOW_BOOK_ID, punkId);
+  removeActiveListing(PERCENTILE_HIGH_BOOK_ID, punkId);
+  rebalancePercentileBooks();
+}
+
+/**
+ * Gets the listing at the FLOOR_PERCENTILE percentile of the public listings.
+ * @returns The percentile price as a BigInt, or zero if nothing is listed.
+ */
+export function getPercentileFloor(): BigInt {
+  let lowFloor = getOrCreateListingBook(PERCENTILE_LOW_BOOK_ID).floor;
+  return lowFloor ? lowFloor.neg() : BIGINT_ZERO;
+}
+
+/**
+ * Gets the lowest listing of a book from a seller without a recent quick delisting.
+ * Only the FILTERED_FLOOR_MAX_LISTINGS cheapest listings are checked, bounding the entity loads.
+ * @param book - The ListingBook entity.
+ * @param timestamp - The current block timestamp.
+ * @returns The filtered floor price as a BigInt, or zero if none of the checked listings qualifies.
+ */
+export function getFilteredFloor(book: ListingBook, timestamp: BigInt): BigInt {
+  filterTimestamp = timestamp;
+
+  let nodes = getCheapestListings(book, 1, isFromSteadySeller, FILTERED_FLOOR_MAX_LISTINGS);
+  if (nodes.length == 0) return BIGINT_ZERO;
+
+  return nodes[0].value;
+}
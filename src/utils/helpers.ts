@@ -3,15 +3,22 @@
  * @description This file contains utility functions for the CryptoPunks subgraph.
  */
 
-import { BigInt, Bytes, ethereum, log, store } from '@graphprotocol/graph-ts';
+import { BigDecimal, BigInt, ethereum, log, store } from '@graphprotocol/graph-ts';
 
-import { Account, Bid, Event, Listing, Punk, State, Transfer } from '../../generated/schema';
-
-import { Transfer as TransferEvent, } from '../../generated/CryptoPunksMarket/CryptoPunksMarket';
+import { Account, Bid, Event, Listing, MarketTotals, Punk, State } from '../../generated/schema';
 
 import { timestampToId } from './date-utils';
-import { BIGINT_ZERO, ZERO_ADDRESS } from './constants';
+import { BIGINT_ZERO, CLOSE_REASON_WITHDRAWN, HOLDING_METHOD_TRANSFER, MARKET_LISTING_BOOK_ID, MARKET_TOTALS_ID, MIN_FLOOR_LISTINGS, QUICK_DELIST_WINDOW, ZERO_ADDRESS } from './constants';
 import { BIGINT_ONE } from './constants';
+import { closeBidRecord, closeListingRecord, loadListingRecordClosedIn } from './records';
+import { getOrCreateListingBook } from './listing-index';
+import { closeHolding, openHolding } from './holdings';
+import { toUSDAmount, USDValue } from './conversions';
+import { getAverageFloor, getFilteredFloor, getLowestFloor, getPercentileFloor } from './floors';
+import { getOrCreateMarketDaySnapshot, getOrCreateMarketHourSnapshot } from './snapshots';
+import { seedPunkTraits } from './traits';
+import { getTopicName } from './topics';
+import { isWrapperIntermediary } from './wrappers';
 
 /**
  * Generates a global ID for an event.
@@ -27,23 +34,16 @@ export function getGlobalId(event: ethereum.Event): string {
 }
 
 /**
- * Gets or creates a Transfer entity.
- * @param event - The TransferEvent.
- * @returns The Transfer entity.
+ * Generates the global ID of the log emitted right before an event.
+ * @param event - The ethereum event.
+ * @returns A string representing the global ID of the previous log.
  */
-export function getOrCreateTransfer(event: TransferEvent): Transfer {
-	let transferId = event.transaction.hash.toHexString();
-
-  let transfer = Transfer.load(transferId);
-  if (!transfer) {
-    transfer = new Transfer(transferId);
-    transfer.from = event.params.from.toHexString();
-    transfer.to = event.params.to.toHexString();
-    transfer.transactionHash = event.transaction.hash;
-    transfer.save();
-  }
-
-	return transfer;
+export function getPrevGlobalId(event: ethereum.Event): string {
+	let globalId = event.transaction.hash
+		.toHexString()
+		.concat('-')
+		.concat(event.logIndex.minus(BIGINT_ONE).toString());
+	return globalId;
 }
 
 /**
@@ -63,12 +63,90 @@ export function getOrCreateAccount(
   if (account == null && createIfNotFound) {
     account = new Account(id);
     account.punks = [];
+    account.holdings = BIGINT_ZERO;
+    account.punksBought = BIGINT_ZERO;
+    account.punksSold = BIGINT_ZERO;
+    account.ethSpent = BIGINT_ZERO;
+    account.ethReceived = BIGINT_ZERO;
+    account.usdSpent = BigDecimal.zero();
+    account.usdReceived = BigDecimal.zero();
+    account.realizedProfit = BIGINT_ZERO;
+    account.costBasis = BIGINT_ZERO;
+    account.bidsPlaced = BIGINT_ZERO;
+    account.bidsWithdrawn = BIGINT_ZERO;
+    account.listings = BIGINT_ZERO;
+    account.pendingWithdrawal = BIGINT_ZERO;
+    account.withdrawn = BIGINT_ZERO;
+    account.quickDelistings = BIGINT_ZERO;
     if (save) account.save();
   }
 
   return account as Account;
 }
 
+/**
+ * Records activity of an account at a block. The caller saves the account.
+ * @param account - The Account entity.
+ * @param blockNumber - The block number of the activity.
+ */
+export function recordAccountActivity(account: Account, blockNumber: BigInt): void {
+  if (account.id == ZERO_ADDRESS) return;
+
+  if (account.firstActivityBlock === null) account.firstActivityBlock = blockNumber;
+  account.lastActivityBlock = blockNumber;
+}
+
+/**
+ * Records a punk purchase on the buyer's account.
+ * @param id - The buyer's account ID.
+ * @param value - The price paid in wei.
+ * @param valueUsd - The price paid in US dollars, or null if no ETH/USD price is known.
+ * @param blockNumber - The block number of the sale.
+ */
+export function recordAccountPurchase(id: string, value: BigInt, valueUsd: BigDecimal | null, blockNumber: BigInt): void {
+  let account = getOrCreateAccount(id);
+  account.punksBought = account.punksBought.plus(BIGINT_ONE);
+  account.ethSpent = account.ethSpent.plus(value);
+  if (valueUsd) account.usdSpent = account.usdSpent.plus(valueUsd);
+  recordAccountActivity(account, blockNumber);
+  account.save();
+}
+
+/**
+ * Records a punk sale on the seller's account.
+ * @param id - The seller's account ID.
+ * @param value - The price received in wei.
+ * @param valueUsd - The price received in US dollars, or null if no ETH/USD price is known.
+ * @param costBasis - The acquisition value of the seller's holding in wei.
+ * @param blockNumber - The block number of the sale.
+ */
+export function recordAccountSale(
+  id: string,
+  value: BigInt,
+  valueUsd: BigDecimal | null,
+  costBasis: BigInt,
+  blockNumber: BigInt,
+): void {
+  let account = getOrCreateAccount(id);
+  account.punksSold = account.punksSold.plus(BIGINT_ONE);
+  account.ethReceived = account.ethReceived.plus(value);
+  if (valueUsd) account.usdReceived = account.usdReceived.plus(valueUsd);
+  account.realizedProfit = account.realizedProfit.plus(value.minus(costBasis));
+  recordAccountActivity(account, blockNumber);
+  account.save();
+}
+
+/**
+ * Adds ETH the market contract now owes an account to its pending withdrawal balance.
+ * @param id - The account ID.
+ * @param amount - The amount credited in wei.
+ */
+export function creditPendingWithdrawal(id: string, amount: BigInt): void {
+  let account = getOrCreateAccount(id);
+  account.pendingWithdrawal = account.pendingWithdrawal.plus(amount);
+  account.save();
+}
+
 /**
  * Gets or creates a Punk entity.
  * @param id - The punk ID.
@@ -87,6 +165,15 @@ export function getOrCreatePunk(
     punk = new Punk(id);
     punk.owner = ZERO_ADDRESS;
     punk.wrapped = false;
+    punk.sales = BIGINT_ZERO;
+    punk.topSalePrice = BIGINT_ZERO;
+    punk.owners = [];
+    punk.ownerCount = BIGINT_ZERO;
+    punk.timesListed = BIGINT_ZERO;
+    punk.bidsReceived = BIGINT_ZERO;
+    punk.closedHoldings = BIGINT_ZERO;
+    punk.totalHoldingPeriod = BIGINT_ZERO;
+    seedPunkTraits(punk);
     if (save) punk.save();
   }
 
@@ -94,7 +181,7 @@ export function getOrCreatePunk(
 }
 
 /**
- * Gets or creates a State entity.
+ * Gets or creates a State entity and opens its hour and day snapshots.
  * @param timestamp - The timestamp for the state.
  * @returns The State entity.
  */
@@ -113,11 +200,9 @@ export function getOrCreateState(timestamp: BigInt): State {
   } while (!prevState && i <= 30);
   
 
-  let prevListings: string[] = [];
   let prevOwners: BigInt = BIGINT_ZERO;
 
   if (prevState) {
-    prevListings = prevState.activeListings;
     prevOwners = prevState.owners;
   }
 
@@ -132,36 +217,84 @@ export function getOrCreateState(timestamp: BigInt): State {
     state.bids = BIGINT_ZERO;
     state.sales = BIGINT_ZERO;
     state.volume = BIGINT_ZERO;
+    state.volumeUsd = BigDecimal.zero();
     state.floor = BIGINT_ZERO;
+    state.floorAverage = BIGINT_ZERO;
+    state.floorPercentile = BIGINT_ZERO;
+    state.filteredFloor = BIGINT_ZERO;
     // These carry over from previous state
     state.owners = prevOwners;
-    state.activeListings = prevListings;
-
-    if (prevListings.length > 0) {
-      let newFloor = getFloorFromActiveListings(state);
-      state.floor = newFloor;
-    }
+    refreshStateListings(state, timestamp);
+    // Saved right away so later calls in the same event load it instead of recomputing the floors
+    state.save();
   }
 
+  // Open the snapshots with the floor before the current event is applied
+  getOrCreateMarketHourSnapshot(timestamp, state as State);
+  getOrCreateMarketDaySnapshot(timestamp, state as State);
+
   return state as State;
 }
 
+/**
+ * Gets or creates the singleton MarketTotals entity.
+ * @returns The MarketTotals entity.
+ */
+export function getOrCreateMarketTotals(): MarketTotals {
+  let totals = MarketTotals.load(MARKET_TOTALS_ID);
+  if (totals == null) {
+    totals = new MarketTotals(MARKET_TOTALS_ID);
+    totals.volume = BIGINT_ZERO;
+    totals.volumeUsd = BigDecimal.zero();
+    totals.sales = BIGINT_ZERO;
+    totals.topSale = null;
+    totals.bids = BIGINT_ZERO;
+    totals.topBid = null;
+    totals.listings = BIGINT_ZERO;
+    totals.holders = BIGINT_ZERO;
+    totals.wrapped = BIGINT_ZERO;
+  }
+
+  return totals as MarketTotals;
+}
+
+/**
+ * Adds an account to a punk's distinct owners. The caller saves the punk.
+ * Wrapper contracts and their user proxies only hold punks in passing and are left out.
+ * @param punk - The Punk entity.
+ * @param id - The new owner's account ID.
+ */
+function recordPunkOwner(punk: Punk, id: string): void {
+  if (id == ZERO_ADDRESS || isWrapperIntermediary(id)) return;
+
+  let owners = punk.owners;
+  if (owners.includes(id)) return;
+
+  owners.push(id);
+  punk.owners = owners;
+  punk.ownerCount = BigInt.fromI32(owners.length);
+}
+
 let updateOwnershipPunkId: string;
 /**
  * Updates the ownership of a punk.
- * @param transactionHash - The transaction hash.
- * @param blockTimestamp - The block timestamp.
+ * @param event - The event moving the punk.
  * @param punkId - The punk ID.
  * @param toAddress - The new owner's address.
  * @param fromAddress - The previous owner's address.
+ * @param method - How the new owner acquired the punk.
+ * @param value - The price paid in wei.
  */
 export function updateOwnership(
-  transactionHash: Bytes,
-  blockTimestamp: BigInt,
+  event: ethereum.Event,
   punkId: string,
   toAddress: string,
   fromAddress: string,
+  method: string = HOLDING_METHOD_TRANSFER,
+  value: BigInt = BIGINT_ZERO,
 ): void {
+  // Nothing moves when a wrapped punk comes out of its wrapper to its token holder
+  if (toAddress == fromAddress) return;
 
   updateOwnershipPunkId = punkId;
 
@@ -171,54 +304,65 @@ export function updateOwnership(
   let toHolderPunks = toAccount.punks;
   let fromHolderPunks = fromAccount.punks;
 
-  let state = getOrCreateState(blockTimestamp);
+  let state = getOrCreateState(event.block.timestamp);
+  let totals = getOrCreateMarketTotals();
   let prevOwners = state.owners;
+  let holders = totals.holders;
 
-  if (fromHolderPunks.length == 1) {
+  // Wrapper contracts and their user proxies are not holders
+  if (fromHolderPunks.length == 1 && !isWrapperIntermediary(fromAccount.id)) {
     prevOwners = prevOwners.minus(BIGINT_ONE);
+    holders = holders.minus(BIGINT_ONE);
   }
 
-  if (toHolderPunks.length == 0) {
+  if (toHolderPunks.length == 0 && !isWrapperIntermediary(toAccount.id)) {
     prevOwners = prevOwners.plus(BIGINT_ONE);
+    holders = holders.plus(BIGINT_ONE);
   }
 
   state.owners = prevOwners;
   state.save();
+
+  totals.holders = holders;
+  totals.save();
   
   let newFromHolderPunks = fromHolderPunks.filter(n => n != updateOwnershipPunkId);
   fromAccount.punks = newFromHolderPunks;
   toHolderPunks.push(updateOwnershipPunkId);
   toAccount.punks = toHolderPunks;
 
+  fromAccount.holdings = BigInt.fromI32(newFromHolderPunks.length);
+  toAccount.holdings = BigInt.fromI32(toHolderPunks.length);
+  recordAccountActivity(fromAccount, event.block.number);
+  recordAccountActivity(toAccount, event.block.number);
+
+  let punk = getOrCreatePunk(updateOwnershipPunkId);
+
+  let valueUsd: BigDecimal | null = BigDecimal.zero();
+  if (value.gt(BIGINT_ZERO)) {
+    let usd = USDValue(event.block.timestamp, event.block.number);
+    valueUsd = usd ? toUSDAmount(value, usd as BigInt) : null;
+  }
+  let previous = closeHolding(punk, fromAccount, event, method, value, valueUsd);
+  openHolding(getGlobalId(event), punk, toAccount, event, method, value, valueUsd, previous);
+
   fromAccount.save();
   toAccount.save();
 
-  let punk = getOrCreatePunk(updateOwnershipPunkId);
+  punk.previousOwner = fromAccount.id;
   punk.owner = toAccount.id;
+  recordPunkOwner(punk, toAccount.id);
+  punk.lastTransferTimestamp = event.block.timestamp;
   punk.save();
 
   log.debug(`updateOwnership(): TXHash: {}, PunkID: {}, ToPunks: {}, FromPunks: {}`, [
-    transactionHash.toHexString(),
+    event.transaction.hash.toHexString(),
     updateOwnershipPunkId,
     toHolderPunks.length.toString(),
     fromHolderPunks.length.toString(),
   ]);
 }
 
-/**
- * Gets the owner of a punk.
- * @param punkId - The punk ID.
- * @returns The owner's address.
- */
-export function getPunkOwner(punkId: string): string {
-  let punk = Punk.load(punkId);
-  if (punk) {
-    let owner = Account.load(punk.owner);
-    if (owner) return owner.id.toString() || ZERO_ADDRESS;
-  }
-  return ZERO_ADDRESS;
-}
-
 /**
  * Loads the previous bid event.
  * @param topBid - The top bid ID.
@@ -240,48 +384,100 @@ export function loadPrevSaleEvent(topSale: string | null): Event | null {
 }
 
 /**
- * Calculates the floor price from active listings.
+ * Updates the active listing count and floors of a State from the market ListingBook.
+ * While fewer than MIN_FLOOR_LISTINGS listings are active, the previous day's floors are kept.
  * @param state - The State entity.
- * @returns The floor price as a BigInt.
+ * @param timestamp - The current block timestamp.
  */
-export function getFloorFromActiveListings(state: State): BigInt {
-
-  let prevId = timestampToId(state.timestamp.toI32(), 1);
-  let prevState = State.load(prevId);
-
-  let prevFloor: BigInt = BIGINT_ZERO;
-  if (prevState) prevFloor = prevState.floor;
-
-  let listings = state.activeListings;
-  if (listings.length < 5) return prevFloor;
+export function refreshStateListings(state: State, timestamp: BigInt): void {
+  let book = getOrCreateListingBook(MARKET_LISTING_BOOK_ID);
+  state.activeListingCount = BigInt.fromI32(book.size);
+
+  if (book.size < MIN_FLOOR_LISTINGS) {
+    let prevState = State.load(timestampToId(state.timestamp.toI32(), 1));
+    state.floor = prevState ? prevState.floor : BIGINT_ZERO;
+    state.floorAverage = prevState ? prevState.floorAverage : BIGINT_ZERO;
+    state.floorPercentile = prevState ? prevState.floorPercentile : BIGINT_ZERO;
+    state.filteredFloor = prevState ? prevState.filteredFloor : BIGINT_ZERO;
+    return;
+  }
 
-  let newFloor: BigInt | null = null;
+  state.floor = getLowestFloor(book);
+  state.floorAverage = getAverageFloor(book);
+  state.floorPercentile = getPercentileFloor();
+  state.filteredFloor = getFilteredFloor(book, timestamp);
+}
 
-  for (let i = 0; i < listings.length; i++) {
-    let listing = Listing.load(listings[i]);
-    if (listing && listing.value && listing.value.gt(BIGINT_ZERO)) {
-      // log.info('listing value: {}', [listing.value.toString()]);
-      if (newFloor === null || listing.value.lt(newFloor)) {
-        newFloor = listing.value;
-      }
-    }
+/**
+ * Checks whether a PunkNoLongerForSale event comes from transferPunk, which emits the
+ * punk's PunkTransfer two logs later, after its Transfer.
+ * @param event - The PunkNoLongerForSale event, with its receipt.
+ * @param punkId - The punk ID.
+ * @returns True if the receipt shows the punk being transferred.
+ */
+function isFollowedByPunkTransfer(event: ethereum.Event, punkId: string): boolean {
+  let receipt = event.receipt;
+  if (!receipt) return false;
+
+  let logs = receipt.logs;
+  let transferLogIndex = event.logIndex.plus(BigInt.fromI32(2));
+  for (let i = 0; i < logs.length; i++) {
+    let receiptLog = logs[i];
+    if (!receiptLog.logIndex.equals(transferLogIndex)) continue;
+    if (!receiptLog.address.equals(event.address) || receiptLog.topics.length == 0) return false;
+    if (getTopicName(receiptLog.topics[0].toHexString()) != 'PunkTransfer') return false;
+
+    let punkIndex = ethereum.decode('uint256', receiptLog.data);
+    return punkIndex != null && punkIndex.toBigInt().toString() == punkId;
   }
 
-  return newFloor ? newFloor : BIGINT_ZERO;
+  return false;
+}
+
+/**
+ * Records a quick delisting on the seller's account if a listing was withdrawn within
+ * QUICK_DELIST_WINDOW of being offered. Listings ended by transferPunk are not withdrawals,
+ * even though their PunkNoLongerForSale comes before the PunkTransfer that reclassifies them.
+ * @param recordId - The ListingRecord ID of the punk's last listing.
+ * @param event - The event withdrawing the listing.
+ */
+export function recordQuickDelisting(recordId: string | null, event: ethereum.Event): void {
+  let record = loadListingRecordClosedIn(recordId, event);
+  if (!record || record.closeReason != CLOSE_REASON_WITHDRAWN) return;
+  if (event.block.timestamp.minus(record.openedBlockTimestamp).gt(QUICK_DELIST_WINDOW)) return;
+  if (isFollowedByPunkTransfer(event, record.punk)) return;
+
+  let account = getOrCreateAccount(record.fromAccount);
+  account.quickDelistings = account.quickDelistings.plus(BIGINT_ONE);
+  account.lastQuickDelistTimestamp = event.block.timestamp;
+  account.save();
 }
 
 /**
- * Removes a punk from sale and optionally removes its bid.
+ * Removes a punk from sale and optionally removes its bid, closing their records.
+ * @param event - The event ending the listing.
  * @param punkId - The punk ID.
- * @param removeBid - Whether to remove the bid as well.
+ * @param listingReason - The close reason for the listing record.
+ * @param bidReason - The close reason for the bid record, or null to keep the bid.
  */
-export function setPunkNoLongerForSale(punkId: string, removeBid: boolean = false): void {
+export function setPunkNoLongerForSale(
+  event: ethereum.Event,
+  punkId: string,
+  listingReason: string,
+  bidReason: string | null = null,
+): void {
   let listing = Listing.load(punkId);
-  if (listing) store.remove('Listing', punkId);
+  if (listing) {
+    closeListingRecord(listing.record, event, listingReason);
+    store.remove('Listing', punkId);
+  }
 
-  if (removeBid) {
+  if (bidReason) {
     let bid = Bid.load(punkId);
-    if (bid) store.remove('Bid', punkId);
+    if (bid) {
+      closeBidRecord(bid.record, event, bidReason as string);
+      store.remove('Bid', punkId);
+    }
   }
 }
   
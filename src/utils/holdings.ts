@@ -0,0 +1,142 @@
+/**
+ * @file holdings.ts
+ * @description Helpers for the Holding entity, one per stint of an account owning a punk.
+ * Holdings carry the cost basis used for realized profit and the periods behind the
+ * average holding period of each punk.
+ */
+
+import { BigDecimal, BigInt, ethereum } from '@graphprotocol/graph-ts';
+
+import { Account, Holding, Punk } from '../../generated/schema';
+
+import { BIGINT_ONE, BIGINT_ZERO, HOLDING_METHOD_PURCHASE, HOLDING_METHOD_SALE } from './constants';
+import { isWrapperIntermediary } from './wrappers';
+
+/**
+ * Gets the acquisition value of a punk's current holding.
+ * @param punk - The Punk entity.
+ * @returns The cost basis in wei, or zero if the punk has no open holding.
+ */
+export function getHoldingCostBasis(punk: Punk): BigInt {
+  let id = punk.currentHolding;
+  if (!id) return BIGINT_ZERO;
+
+  let holding = Holding.load(id as string);
+  return holding ? holding.acquisitionValue : BIGINT_ZERO;
+}
+
+/**
+ * Closes a punk's current holding. Neither the punk nor the account is saved.
+ * @param punk - The Punk entity.
+ * @param account - The Account entity of the previous owner.
+ * @param event - The event moving the punk.
+ * @param method - How the punk was moved; a purchase closes the holding as a sale.
+ * @param value - The price paid in wei.
+ * @param valueUsd - The price paid in US dollars, or null if no ETH/USD price is known.
+ * @returns The closed Holding entity, or null if the punk had no open holding.
+ */
+export function closeHolding(
+  punk: Punk,
+  account: Account,
+  event: ethereum.Event,
+  method: string,
+  value: BigInt,
+  valueUsd: BigDecimal | null,
+): Holding | null {
+  let id = punk.currentHolding;
+  if (!id) return null;
+
+  let holding = Holding.load(id as string);
+  if (!holding) return null;
+
+  let isSale = method == HOLDING_METHOD_PURCHASE;
+  holding.disposalMethod = isSale ? HOLDING_METHOD_SALE : method;
+  holding.disposalValue = value;
+  holding.disposalValueUsd = valueUsd;
+  holding.realizedProfit = isSale ? value.minus(holding.acquisitionValue) : null;
+  holding.disposedBlockNumber = event.block.number;
+  holding.disposedTimestamp = event.block.timestamp;
+  holding.disposedTransactionHash = event.transaction.hash;
+
+  let holdingPeriod = event.block.timestamp.minus(holding.acquiredTimestamp);
+  holding.holdingPeriod = holdingPeriod;
+  holding.save();
+
+  if (holding.account == account.id) {
+    account.costBasis = account.costBasis.minus(holding.acquisitionValue);
+  }
+
+  // Stints inside a wrapper or its user proxy last until the mint, and a contract buying for the
+  // sender passes the punk on in the same transaction; either would skew the average
+  let isPassThrough = holding.acquiredTransactionHash.equals(event.transaction.hash);
+  if (!isWrapperIntermediary(holding.account) && !isPassThrough) {
+    punk.closedHoldings = punk.closedHoldings.plus(BIGINT_ONE);
+    punk.totalHoldingPeriod = punk.totalHoldingPeriod.plus(holdingPeriod);
+  }
+  punk.currentHolding = null;
+
+  return holding;
+}
+
+/**
+ * Opens a holding for a punk's new owner. Neither the punk nor the account is saved.
+ * A punk that returns to the account that wrapped it keeps that account's cost basis, found by
+ * walking back past the wrapper and user proxy holdings of the wrap. A punk a contract bought
+ * and passed on to the transaction sender is a purchase by the sender at the contract's price.
+ * @param id - The holding ID (global ID of the event moving the punk).
+ * @param punk - The Punk entity.
+ * @param account - The Account entity of the new owner.
+ * @param event - The event moving the punk.
+ * @param method - How the punk was acquired.
+ * @param value - The price paid in wei.
+ * @param valueUsd - The price paid in US dollars, or null if no ETH/USD price is known.
+ * @param previous - The holding closed by the same event, if any.
+ * @returns The Holding entity.
+ */
+export function openHolding(
+  id: string,
+  punk: Punk,
+  account: Account,
+  event: ethereum.Event,
+  method: string,
+  value: BigInt,
+  valueUsd: BigDecimal | null,
+  previous: Holding | null,
+): Holding {
+  let holding = new Holding(id);
+  holding.account = account.id;
+  holding.punk = punk.id;
+  holding.previousHolding = previous ? previous.id : null;
+
+  holding.acquisitionMethod = method;
+  holding.acquisitionValue = value;
+  holding.acquisitionValueUsd = valueUsd;
+  holding.acquiredBlockNumber = event.block.number;
+  holding.acquiredTimestamp = event.block.timestamp;
+  holding.acquiredTransactionHash = event.transaction.hash;
+
+  let origin = previous;
+  while (origin && isWrapperIntermediary(origin.account)) {
+    let previousId = origin.previousHolding;
+    origin = previousId ? Holding.load(previousId as string) : null;
+  }
+  if (origin && origin !== previous && origin.account == account.id) {
+    holding.acquisitionValue = origin.acquisitionValue;
+    holding.acquisitionValueUsd = origin.acquisitionValueUsd;
+  } else if (
+    previous &&
+    previous.acquisitionMethod == HOLDING_METHOD_PURCHASE &&
+    previous.acquiredTransactionHash.equals(event.transaction.hash) &&
+    account.id == event.transaction.from.toHexString()
+  ) {
+    holding.acquisitionMethod = HOLDING_METHOD_PURCHASE;
+    holding.acquisitionValue = previous.acquisitionValue;
+    holding.acquisitionValueUsd = previous.acquisitionValueUsd;
+  }
+  holding.save();
+
+  account.costBasis = account.costBasis.plus(holding.acquisitionValue);
+  punk.currentHolding = holding.id;
+
+  return holding;
+}
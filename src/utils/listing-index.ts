@@ -0,0 +1,250 @@
+/**
+ * @file listing-index.ts
+ * @description Index of active listings, kept per listing book as a min-heap persisted in
+ * ListingHeapNode entities. Adding or removing a listing touches O(log n) entities and the
+ * floor is the heap root, so no handler has to scan every listing.
+ */
+
+import { BigInt, store } from '@graphprotocol/graph-ts';
+
+import { ActiveListing, ListingBook, ListingHeapNode } from '../../generated/schema';
+
+/**
+ * Builds the ID of a heap node.
+ * @param bookId - The ListingBook ID.
+ * @param position - The position in the heap.
+ * @returns The ListingHeapNode ID.
+ */
+function getNodeId(bookId: string, position: i32): string {
+  return bookId + '-' + position.toString();
+}
+
+/**
+ * Builds the ID of an active listing.
+ * @param bookId - The ListingBook ID.
+ * @param punkId - The punk ID.
+ * @returns The ActiveListing ID.
+ */
+function getActiveListingId(bookId: string, punkId: string): string {
+  return bookId + '-' + punkId;
+}
+
+/**
+ * Gets or creates a ListingBook entity.
+ * @param id - The book ID.
+ * @returns The ListingBook entity.
+ */
+export function getOrCreateListingBook(id: string): ListingBook {
+  let book = ListingBook.load(id);
+  if (book == null) {
+    book = new ListingBook(id);
+    book.size = 0;
+    book.floor = null;
+    book.save();
+  }
+
+  return book as ListingBook;
+}
+
+/**
+ * Loads the heap node at a position.
+ * @param bookId - The ListingBook ID.
+ * @param position - The position in the heap.
+ * @returns The ListingHeapNode entity.
+ */
+function loadNode(bookId: string, position: i32): ListingHeapNode {
+  return ListingHeapNode.load(getNodeId(bookId, position)) as ListingHeapNode;
+}
+
+/**
+ * Places an active listing at a position of the heap.
+ * @param bookId - The ListingBook ID.
+ * @param position - The position in the heap.
+ * @param activeListingId - The ActiveListing ID.
+ * @param value - The listing value in wei.
+ */
+function setNode(bookId: string, position: i32, activeListingId: string, value: BigInt): void {
+  let node = new ListingHeapNode(getNodeId(bookId, position));
+  node.activeListing = activeListingId;
+  node.value = value;
+  node.save();
+
+  let activeListing = ActiveListing.load(activeListingId) as ActiveListing;
+  activeListing.position = position;
+  activeListing.save();
+}
+
+/**
+ * Moves an active listing up from a position until its parent is not more expensive.
+ * @param bookId - The ListingBook ID.
+ * @param position - The starting position.
+ * @param activeListingId - The ActiveListing ID.
+ * @param value - The listing value in wei.
+ */
+function siftUp(bookId: string, position: i32, activeListingId: string, value: BigInt): void {
+  while (position > 0) {
+    let parent = (position - 1) / 2;
+    let parentNode = loadNode(bookId, parent);
+    if (!value.lt(parentNode.value)) break;
+
+    setNode(bookId, position, parentNode.activeListing, parentNode.value);
+    position = parent;
+  }
+
+  setNode(bookId, position, activeListingId, value);
+}
+
+/**
+ * Moves an active listing down from a position until its children are not cheaper.
+ * @param bookId - The ListingBook ID.
+ * @param size - The number of nodes in the heap.
+ * @param position - The starting position.
+ * @param activeListingId - The ActiveListing ID.
+ * @param value - The listing value in wei.
+ */
+function siftDown(bookId: string, size: i32, position: i32, activeListingId: string, value: BigInt): void {
+  while (2 * position + 1 < size) {
+    let child = 2 * position + 1;
+    let childNode = loadNode(bookId, child);
+    if (child + 1 < size) {
+      let rightNode = loadNode(bookId, child + 1);
+      if (rightNode.value.lt(childNode.value)) {
+        child = child + 1;
+        childNode = rightNode;
+      }
+    }
+    if (!childNode.value.lt(value)) break;
+
+    setNode(bookId, position, childNode.activeListing, childNode.value);
+    position = child;
+  }
+
+  setNode(bookId, position, activeListingId, value);
+}
+
+/**
+ * Sets the floor of a book to its heap root and saves it.
+ * @param book - The ListingBook entity.
+ */
+function saveBook(book: ListingBook): void {
+  book.floor = book.size > 0 ? loadNode(book.id, 0).value : null;
+  book.save();
+}
+
+/**
+ * Removes a punk's listing from a book's heap without saving the book.
+ * @param book - The ListingBook entity.
+ * @param punkId - The punk ID.
+ * @returns True if the punk was listed in the book.
+ */
+function removeFromHeap(book: ListingBook, punkId: string): boolean {
+  let id = getActiveListingId(book.id, punkId);
+  let activeListing = ActiveListing.load(id);
+  if (!activeListing) return false;
+
+  let position = activeListing.position;
+  let last = book.size - 1;
+  let lastNode = loadNode(book.id, last);
+
+  store.remove('ActiveListing', id);
+  store.remove('ListingHeapNode', getNodeId(book.id, last));
+  book.size = last;
+
+  // Fill the gap with the last node and restore the heap order around it
+  if (position < last) {
+    if (position > 0 && lastNode.value.lt(loadNode(book.id, (position - 1) / 2).value)) {
+      siftUp(book.id, position, lastNode.activeListing, lastNode.value);
+    } else {
+      siftDown(book.id, book.size, position, lastNode.activeListing, lastNode.value);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Adds a punk's listing to a book, or updates its value if the punk is already listed.
+ * Listings without a price are not indexed; negated values are, for books ordered by the
+ * most expensive listing.
+ * @param bookId - The ListingBook ID.
+ * @param punkId - The punk ID.
+ * @param value - The listing value in wei.
+ * @returns The updated ListingBook entity.
+ */
+export function addActiveListing(bookId: string, punkId: string, value: BigInt): ListingBook {
+  let book = getOrCreateListingBook(bookId);
+  removeFromHeap(book, punkId);
+
+  if (!value.isZero()) {
+    let activeListing = new ActiveListing(getActiveListingId(bookId, punkId));
+    activeListing.book = bookId;
+    activeListing.listing = punkId;
+    activeListing.value = value;
+    activeListing.position = book.size;
+    activeListing.save();
+
+    book.size = book.size + 1;
+    siftUp(bookId, book.size - 1, activeListing.id, value);
+  }
+
+  saveBook(book);
+  return book;
+}
+
+/**
+ * Removes a punk's listing from a book.
+ * @param bookId - The ListingBook ID.
+ * @param punkId - The punk ID.
+ * @returns The updated ListingBook entity.
+ */
+export function removeActiveListing(bookId: string, punkId: string): ListingBook {
+  let book = getOrCreateListingBook(bookId);
+  if (removeFromHeap(book, punkId)) saveBook(book);
+  return book;
+}
+
+/**
+ * Collects the cheapest listings of a book, cheapest first.
+ * The heap is walked best-first, so only the visited nodes and their children are loaded.
+ * @param book - The ListingBook entity.
+ * @param count - The maximum number of listings to collect.
+ * @param accept - Returns false for listings to skip.
+ * @param maxVisits - The maximum number of listings to check, skipped ones included.
+ * @returns The ListingHeapNode entities.
+ */
+export function getCheapestListings(
+  book: ListingBook,
+  count: i32,
+  accept: (node: ListingHeapNode) => boolean,
+  maxVisits: i32 = i32.MAX_VALUE,
+): ListingHeapNode[] {
+  let result: ListingHeapNode[] = [];
+  if (book.size == 0) return result;
+
+  let frontier: ListingHeapNode[] = [loadNode(book.id, 0)];
+  let positions: i32[] = [0];
+  let visits = 0;
+
+  while (frontier.length > 0 && result.length < count && visits < maxVisits) {
+    visits++;
+    let best = 0;
+    for (let i = 1; i < frontier.length; i++) {
+      if (frontier[i].value.lt(frontier[best].value)) best = i;
+    }
+
+    let node = frontier[best];
+    let position = positions[best];
+    frontier.splice(best, 1);
+    positions.splice(best, 1);
+
+    if (accept(node)) result.push(node);
+
+    // Children are never cheaper than their parent, so they join the frontier only now
+    for (let child = 2 * position + 1; child <= 2 * position + 2 && child < book.size; child++) {
+      frontier.push(loadNode(book.id, child));
+      positions.push(child);
+    }
+  }
+
+  return result;
+}
@@ -1,33 +1,227 @@
 /**
  * @file price-oracle.ts
- * @description This file contains functions for interacting with the Chainlink price oracle.
+ * @description This file contains the registry of Chainlink price feeds and functions for reading them.
+ * Prices are cached per Chainlink round in PriceRound entities, indexed from each aggregator's
+ * AnswerUpdated events, so a proxy is only called to discover its aggregator.
  */
 
-import { BigInt, Address } from "@graphprotocol/graph-ts"
+import { BigInt, Address, Bytes, DataSourceContext } from "@graphprotocol/graph-ts"
 import { AggregatorV3Interface } from "../../generated/CryptoPunksMarket/AggregatorV3Interface"
-import { EACAggregatorProxyStartBlock } from "./constants"
+import { EACAggregatorProxy } from "../../generated/CryptoPunksMarket/EACAggregatorProxy"
+import { ChainlinkAggregator } from "../../generated/templates"
+import { PriceFeed, PriceRound } from "../../generated/schema"
+import {
+  EACAggregatorProxyStartBlock,
+  PRICE_FEED_RECHECK_INTERVAL,
+  PRICE_PAIR_BTC_USD,
+  PRICE_PAIR_ETH_USD,
+  PRICE_PAIR_EUR_USD,
+  PRICE_PAIR_GBP_USD,
+  PRICE_PAIR_JPY_USD,
+} from "./constants"
+import {
+  btcUsdTimestamps,
+  btcUsdValues,
+  ethUsdTimestamps,
+  ethUsdValues,
+  eurUsdTimestamps,
+  eurUsdValues,
+  gbpUsdTimestamps,
+  gbpUsdValues,
+  jpyUsdTimestamps,
+  jpyUsdValues,
+} from "./price-data"
+
+/** The proxy encodes round IDs as (phaseId << 64) | aggregatorRoundId */
+const PHASE_OFFSET = BigInt.fromI32(2).pow(64)
+
+const SECONDS_PER_HOUR = 60 * 60
+const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR
+
+/**
+ * A Chainlink price feed and the bundled table used when the feed cannot be read.
+ */
+export class ChainlinkFeed {
+  constructor(
+    public pair: string,
+    public proxy: string,
+    public decimals: i32,
+    public heartbeat: i32,
+    public fallbackTimestamps: StaticArray<i64>,
+    public fallbackValues: StaticArray<f64>,
+  ) {}
+}
+
+/**
+ * Registry of the Chainlink feeds, all quoted in US dollars with 8 decimals.
+ * Each proxy's deployment is found on chain rather than configured: reads before it revert and are
+ * retried at most every PRICE_FEED_RECHECK_INTERVAL, and the first that succeeds sets PriceFeed.startBlock.
+ */
+export const chainlinkFeeds: ChainlinkFeed[] = [
+  new ChainlinkFeed(PRICE_PAIR_ETH_USD, "0x5f4ec3df9cbd43714fe2740f5e3616155c5b8419", 8, SECONDS_PER_HOUR, ethUsdTimestamps, ethUsdValues),
+  new ChainlinkFeed(PRICE_PAIR_EUR_USD, "0xb49f677943bc038e9857d61e7d053caa2c1734c1", 8, SECONDS_PER_DAY, eurUsdTimestamps, eurUsdValues),
+  new ChainlinkFeed(PRICE_PAIR_GBP_USD, "0x5c0ab2d9b5a7ed9f470386e82bb36a3613cdd4b5", 8, SECONDS_PER_DAY, gbpUsdTimestamps, gbpUsdValues),
+  new ChainlinkFeed(PRICE_PAIR_JPY_USD, "0xbce206cae7f0ec07b545edde332a47c2f75bbeb3", 8, SECONDS_PER_DAY, jpyUsdTimestamps, jpyUsdValues),
+  new ChainlinkFeed(PRICE_PAIR_BTC_USD, "0xf4030086522a5beea4988f8ca5b36dbc97bee88c", 8, SECONDS_PER_HOUR, btcUsdTimestamps, btcUsdValues),
+]
+
+/**
+ * Gets a feed from the registry.
+ * @param pair - The price pair, e.g. ETH/USD.
+ * @returns The ChainlinkFeed, or null if the pair is not registered.
+ */
+export function getChainlinkFeed(pair: string): ChainlinkFeed | null {
+  for (let i = 0; i < chainlinkFeeds.length; i++) {
+    if (chainlinkFeeds[i].pair == pair) {
+      return chainlinkFeeds[i]
+    }
+  }
+  return null
+}
+
+/**
+ * Gets or creates the PriceRound entity for an aggregator round.
+ * @param pair - The price pair of the feed.
+ * @param aggregator - The aggregator address.
+ * @param roundId - The aggregator round ID.
+ * @param price - The answer with the feed's decimals.
+ * @param updatedAt - The round timestamp.
+ * @param block - The block the round was indexed at.
+ * @returns The PriceRound entity.
+ */
+export function getOrCreatePriceRound(
+  pair: string,
+  aggregator: Address,
+  roundId: BigInt,
+  price: BigInt,
+  updatedAt: BigInt,
+  block: BigInt,
+): PriceRound {
+  let id = aggregator.toHexString() + "-" + roundId.toString()
+
+  let round = PriceRound.load(id)
+  if (round == null) {
+    round = new PriceRound(id)
+    round.feed = pair
+    round.aggregator = aggregator
+    round.roundId = roundId
+    round.price = price
+    round.updatedAt = updatedAt
+    round.blockNumber = block
+    round.save()
+  }
+
+  return round as PriceRound
+}
+
+/**
+ * Starts indexing the AnswerUpdated events of a feed's aggregator.
+ * @param pair - The price pair of the feed.
+ * @param aggregator - The aggregator address.
+ */
+function indexAggregator(pair: string, aggregator: Address): void {
+  let context = new DataSourceContext()
+  context.setString("pair", pair)
+  ChainlinkAggregator.createWithContext(aggregator, context)
+}
+
+/**
+ * Reads the current aggregator and round from a feed's proxy.
+ * Starts indexing the aggregator when it is new and records the round in effect,
+ * since AnswerUpdated events only cover rounds from then on.
+ * @param chainlinkFeed - The feed from the registry.
+ * @param feed - The PriceFeed entity, or null before the first read.
+ * @param block - The current block number.
+ * @param timestamp - The current block timestamp.
+ * @returns The updated PriceFeed entity, without an aggregator while the proxy cannot be read.
+ */
+function syncPriceFeed(chainlinkFeed: ChainlinkFeed, feed: PriceFeed | null, block: BigInt, timestamp: BigInt): PriceFeed {
+  if (feed == null) {
+    feed = new PriceFeed(chainlinkFeed.pair)
+  }
+  feed.checkedAt = timestamp
+
+  let proxy = Address.fromString(chainlinkFeed.proxy)
+
+  let aggregatorResult = EACAggregatorProxy.bind(proxy).try_aggregator()
+  if (aggregatorResult.reverted) {
+    feed.save()
+    return feed
+  }
+  let aggregator = aggregatorResult.value
+
+  // The first successful read dates the proxy deployment
+  if (!feed.startBlock) {
+    feed.startBlock = block
+  }
+
+  let currentAggregator = feed.aggregator
+  if (!currentAggregator || !(currentAggregator as Bytes).equals(aggregator)) {
+    indexAggregator(chainlinkFeed.pair, aggregator)
+    feed.aggregator = aggregator
+  }
+
+  let roundResult = AggregatorV3Interface.bind(proxy).try_latestRoundData()
+  if (!roundResult.reverted) {
+    let value = roundResult.value
+    let round = getOrCreatePriceRound(chainlinkFeed.pair, aggregator, value.value0.mod(PHASE_OFFSET), value.value1, value.value3, block)
+    feed.latestRound = round.id
+  }
+
+  feed.save()
+
+  return feed
+}
 
 /**
- * Retrieves the latest ETH/USD price from the Chainlink price feed.
+ * Checks whether a feed's proxy should be read again because no round arrived for
+ * twice its heartbeat, which happens when the proxy has moved to a new aggregator.
+ * @param chainlinkFeed - The feed from the registry.
+ * @param feed - The PriceFeed entity.
+ * @param timestamp - The current block timestamp.
+ * @returns True if the proxy should be read again.
+ */
+function needsRecheck(chainlinkFeed: ChainlinkFeed, feed: PriceFeed, timestamp: BigInt): boolean {
+  if (timestamp.minus(feed.checkedAt).lt(PRICE_FEED_RECHECK_INTERVAL)) {
+    return false
+  }
+
+  let latestRound = feed.latestRound
+  if (latestRound == null) {
+    return true
+  }
+
+  let round = PriceRound.load(latestRound as string)
+  let staleAfter = BigInt.fromI32(2 * chainlinkFeed.heartbeat)
+  return round == null || timestamp.minus(round.updatedAt).gt(staleAfter)
+}
+
+/**
+ * Gets the price of the Chainlink round in effect at a block.
+ * @param chainlinkFeed - The feed from the registry.
  * @param block - The current block number.
- * @returns The latest price as a BigInt, or -1 if the price cannot be retrieved.
+ * @param timestamp - The current block timestamp.
+ * @returns The price with the feed's decimals as a BigInt, or null if no round is known.
  */
-export function getLatestPrice(block: BigInt): BigInt {
-  // Check if the current block is before the EACAggregatorProxy contract deployment
+export function getChainlinkPrice(chainlinkFeed: ChainlinkFeed, block: BigInt, timestamp: BigInt): BigInt | null {
+  // No EAC proxy existed before the ETH/USD one
   if (block.lt(EACAggregatorProxyStartBlock)) {
-    return BigInt.fromI32(-1)
+    return null
   }
 
-  // Chainlink ETH/USD Price Feed address on Ethereum mainnet
-  let oracleAddress = Address.fromString("0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419")
-  let contract = AggregatorV3Interface.bind(oracleAddress)
-  let result = contract.try_latestRoundData()
+  let feed = PriceFeed.load(chainlinkFeed.pair)
+  if (feed == null || needsRecheck(chainlinkFeed, feed, timestamp)) {
+    feed = syncPriceFeed(chainlinkFeed, feed, block, timestamp)
+  }
 
-  // If the call to the oracle reverts, return -1
-  if (result.reverted) {
-    return BigInt.fromI32(-1)
+  let latestRound = feed.latestRound
+  if (latestRound == null) {
+    return null
   }
 
-  // Return the latest price (second value in the returned tuple)
-  return result.value.value1
-}
\ No newline at end of file
+  let round = PriceRound.load(latestRound as string)
+  if (round == null) {
+    return null
+  }
+  return round.price
+}
@@ -0,0 +1,111 @@
+/**
+ * @file private-listings.ts
+ * @description Maintains the PrivateListingMarket entity, the view of listings offered to a
+ * single address with offerPunkForSaleToAddress. Private listings are few, so they are kept
+ * in a sorted list rather than a ListingBook.
+ */
+
+import { BigInt } from '@graphprotocol/graph-ts';
+
+import { PrivateListingMarket } from '../../generated/schema';
+
+import { BIGINT_ZERO, PRIVATE_LISTING_MARKET_ID } from './constants';
+
+/**
+ * Gets or creates the singleton PrivateListingMarket entity.
+ * @returns The PrivateListingMarket entity.
+ */
+export function getOrCreatePrivateListingMarket(): PrivateListingMarket {
+  let market = PrivateListingMarket.load(PRIVATE_LISTING_MARKET_ID);
+  if (market == null) {
+    market = new PrivateListingMarket(PRIVATE_LISTING_MARKET_ID);
+    market.activeListingCount = BIGINT_ZERO;
+    market.totalValue = BIGINT_ZERO;
+    market.medianValue = null;
+    market.listings = [];
+    market.values = [];
+  }
+
+  return market as PrivateListingMarket;
+}
+
+/**
+ * Sets the count, total and median of the market from its sorted values and saves it.
+ * @param market - The PrivateListingMarket entity.
+ * @param listings - The active private listing IDs, ordered by value.
+ * @param values - The listing values, in the same order.
+ */
+function saveMarket(market: PrivateListingMarket, listings: string[], values: BigInt[]): void {
+  let count = values.length;
+
+  let total = BIGINT_ZERO;
+  for (let i = 0; i < count; i++) {
+    total = total.plus(values[i]);
+  }
+
+  market.listings = listings;
+  market.values = values;
+  market.activeListingCount = BigInt.fromI32(count);
+  market.totalValue = total;
+
+  if (count == 0) {
+    market.medianValue = null;
+  } else if (count % 2 == 1) {
+    market.medianValue = values[count / 2];
+  } else {
+    market.medianValue = values[count / 2 - 1].plus(values[count / 2]).div(BigInt.fromI32(2));
+  }
+
+  market.save();
+}
+
+/**
+ * Adds a private listing, or updates its value if the punk is already privately listed.
+ * @param punkId - The punk ID, which is also the Listing ID.
+ * @param value - The listing value in wei.
+ */
+export function addPrivateListing(punkId: string, value: BigInt): void {
+  let market = getOrCreatePrivateListingMarket();
+  let listings = market.listings;
+  let values = market.values;
+
+  let index = listings.indexOf(punkId);
+  if (index > -1) {
+    listings.splice(index, 1);
+    values.splice(index, 1);
+  }
+
+  // Insert after every listing that is not more expensive
+  let position = 0;
+  while (position < values.length && values[position].le(value)) {
+    position++;
+  }
+  listings.push(punkId);
+  values.push(value);
+  for (let i = values.length - 1; i > position; i--) {
+    listings[i] = listings[i - 1];
+    values[i] = values[i - 1];
+  }
+  listings[position] = punkId;
+  values[position] = value;
+
+  saveMarket(market, listings, values);
+}
+
+/**
+ * Removes a private listing.
+ * @param punkId - The punk ID, which is also the Listing ID.
+ */
+export function removePrivateListing(punkId: string): void {
+  let market = getOrCreatePrivateListingMarket();
+  let listings = market.listings;
+  let values = market.values;
+
+  let index = listings.indexOf(punkId);
+  if (index == -1) return;
+
+  listings.splice(index, 1);
+  values.splice(index, 1);
+
+  saveMarket(market, listings, values);
+}
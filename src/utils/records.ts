@@ -0,0 +1,160 @@
+/**
+ * @file records.ts
+ * @description Helpers for the ListingRecord and BidRecord history entities.
+ */
+
+import { ethereum } from '@graphprotocol/graph-ts';
+
+import { Bid, BidRecord, Listing, ListingRecord } from '../../generated/schema';
+
+import {
+  BID_STATUS_ACCEPTED,
+  BID_STATUS_ACTIVE,
+  BID_STATUS_OUTBID,
+  BID_STATUS_REFUNDED,
+  BID_STATUS_WITHDRAWN,
+  CLOSE_REASON_ACCEPTED,
+  CLOSE_REASON_REPLACED,
+  CLOSE_REASON_WITHDRAWN,
+} from './constants';
+
+/**
+ * Creates the ListingRecord for a newly opened listing.
+ * @param id - The record ID (global ID of the PunkOffered event).
+ * @param listing - The active Listing entity.
+ * @returns The ListingRecord entity.
+ */
+export function createListingRecord(id: string, listing: Listing): ListingRecord {
+  let record = new ListingRecord(id);
+  record.punk = listing.punk;
+  record.value = listing.value;
+  record.usd = listing.usd;
+  record.ethUsdPrice = listing.ethUsdPrice;
+  record.valueUsd = listing.valueUsd;
+  record.fromAccount = listing.fromAccount;
+  record.toAccount = listing.toAccount;
+  record.isPrivate = listing.isPrivate;
+
+  record.openedBlockNumber = listing.blockNumber;
+  record.openedBlockTimestamp = listing.blockTimestamp;
+  record.openedTransactionHash = listing.transactionHash;
+  record.save();
+
+  return record;
+}
+
+/**
+ * Creates the BidRecord for a newly entered bid.
+ * @param id - The record ID (global ID of the PunkBidEntered event).
+ * @param bid - The active Bid entity.
+ * @returns The BidRecord entity.
+ */
+export function createBidRecord(id: string, bid: Bid): BidRecord {
+  let record = new BidRecord(id);
+  record.punk = bid.punk;
+  record.value = bid.value;
+  record.usd = bid.usd;
+  record.ethUsdPrice = bid.ethUsdPrice;
+  record.valueUsd = bid.valueUsd;
+  record.fromAccount = bid.fromAccount;
+  record.status = BID_STATUS_ACTIVE;
+
+  record.openedBlockNumber = bid.blockNumber;
+  record.openedBlockTimestamp = bid.blockTimestamp;
+  record.openedTransactionHash = bid.transactionHash;
+  record.save();
+
+  return record;
+}
+
+/**
+ * Closes a ListingRecord.
+ * @param id - The record ID.
+ * @param event - The event closing the listing.
+ * @param reason - The close reason.
+ */
+export function closeListingRecord(id: string, event: ethereum.Event, reason: string): void {
+  let record = ListingRecord.load(id);
+  if (!record || record.closeReason) return;
+
+  record.closeReason = reason;
+  record.closedBlockNumber = event.block.number;
+  record.closedBlockTimestamp = event.block.timestamp;
+  record.closedTransactionHash = event.transaction.hash;
+  record.save();
+}
+
+/**
+ * Gets the status of a bid closed for a given reason.
+ * @param reason - The close reason.
+ * @returns The bid status.
+ */
+function getClosedBidStatus(reason: string): string {
+  if (reason == CLOSE_REASON_ACCEPTED) return BID_STATUS_ACCEPTED;
+  if (reason == CLOSE_REASON_REPLACED) return BID_STATUS_OUTBID;
+  if (reason == CLOSE_REASON_WITHDRAWN) return BID_STATUS_WITHDRAWN;
+  return BID_STATUS_REFUNDED;
+}
+
+/**
+ * Closes a BidRecord.
+ * @param id - The record ID.
+ * @param event - The event closing the bid.
+ * @param reason - The close reason.
+ * @param outbidBy - The ID of the BidRecord replacing this one, if any.
+ */
+export function closeBidRecord(
+  id: string,
+  event: ethereum.Event,
+  reason: string,
+  outbidBy: string | null = null,
+): void {
+  let record = BidRecord.load(id);
+  if (!record || record.closeReason) return;
+
+  let status = getClosedBidStatus(reason);
+  record.status = status;
+  if (status != BID_STATUS_ACCEPTED) record.refunded = record.value;
+  record.outbidBy = outbidBy;
+
+  record.closeReason = reason;
+  record.closedBlockNumber = event.block.number;
+  record.closedBlockTimestamp = event.block.timestamp;
+  record.closedTransactionHash = event.transaction.hash;
+  record.save();
+}
+
+/**
+ * Loads a ListingRecord if it was closed in the transaction of an event.
+ * @param id - The record ID.
+ * @param event - The event in the closing transaction.
+ * @returns The ListingRecord entity or null.
+ */
+export function loadListingRecordClosedIn(id: string | null, event: ethereum.Event): ListingRecord | null {
+  if (id == null) return null;
+
+  let record = ListingRecord.load(id as string);
+  if (!record) return null;
+
+  let closedTransactionHash = record.closedTransactionHash;
+  if (closedTransactionHash && closedTransactionHash.toHexString() == event.transaction.hash.toHexString()) {
+    return record;
+  }
+  return null;
+}
+
+/**
+ * Changes the close reason of a ListingRecord closed earlier in the same transaction.
+ * The market emits PunkNoLongerForSale before PunkTransfer, so a listing cleared by
+ * `transferPunk` is first closed as withdrawn.
+ * @param id - The record ID.
+ * @param event - The event in the closing transaction.
+ * @param reason - The new close reason.
+ */
+export function reclassifyListingRecord(id: string | null, event: ethereum.Event, reason: string): void {
+  let record = loadListingRecordClosedIn(id, event);
+  if (record) {
+    record.closeReason = reason;
+    record.save();
+  }
+}
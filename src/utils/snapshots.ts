@@ -0,0 +1,205 @@
+/**
+ * @file snapshots.ts
+ * @description Hourly and daily market snapshots built on top of the daily State.
+ */
+
+import { BigDecimal, BigInt } from '@graphprotocol/graph-ts';
+
+import { MarketDaySnapshot, MarketHourSnapshot, State } from '../../generated/schema';
+
+import { BIGINT_ONE, BIGINT_ZERO } from './constants';
+
+const SECONDS_PER_HOUR = 60 * 60;
+const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR;
+
+/**
+ * Initializes the fields shared by hour and day snapshots.
+ * @param snapshot - The snapshot entity.
+ * @param state - The State entity the snapshot belongs to.
+ * @param periodStart - The start of the snapshot period.
+ */
+function initSnapshot<T>(snapshot: T, state: State, periodStart: i32): void {
+  snapshot.state = state.id;
+  snapshot.timestamp = BigInt.fromI32(periodStart);
+  snapshot.openFloor = state.floor;
+  snapshot.highFloor = state.floor;
+  snapshot.lowFloor = state.floor;
+  snapshot.closeFloor = state.floor;
+  snapshot.sales = BIGINT_ZERO;
+  snapshot.volume = BIGINT_ZERO;
+  snapshot.volumeUsd = BigDecimal.zero();
+  snapshot.buyers = [];
+  snapshot.sellers = [];
+  snapshot.uniqueBuyers = BIGINT_ZERO;
+  snapshot.uniqueSellers = BIGINT_ZERO;
+  snapshot.bids = BIGINT_ZERO;
+  snapshot.listings = BIGINT_ZERO;
+  snapshot.delistings = BIGINT_ZERO;
+}
+
+/**
+ * Applies a floor price to the open/high/low/close fields of a snapshot.
+ * A floor of zero means no floor is known and is ignored.
+ * @param snapshot - The snapshot entity.
+ * @param floor - The current floor price.
+ */
+function applyFloor<T>(snapshot: T, floor: BigInt): void {
+  if (floor.equals(BIGINT_ZERO)) return;
+
+  if (snapshot.openFloor.equals(BIGINT_ZERO)) snapshot.openFloor = floor;
+  if (floor.gt(snapshot.highFloor)) snapshot.highFloor = floor;
+  if (snapshot.lowFloor.equals(BIGINT_ZERO) || floor.lt(snapshot.lowFloor)) snapshot.lowFloor = floor;
+  snapshot.closeFloor = floor;
+}
+
+/**
+ * Adds a sale to a snapshot.
+ * @param snapshot - The snapshot entity.
+ * @param value - The sale value in wei.
+ * @param valueUsd - The sale value in US dollars, or null to leave it out of the dollar volume.
+ * @param buyer - The buyer's account ID.
+ * @param seller - The seller's account ID.
+ */
+function applySale<T>(snapshot: T, value: BigInt, valueUsd: BigDecimal | null, buyer: string, seller: string): void {
+  snapshot.sales = snapshot.sales.plus(BIGINT_ONE);
+  snapshot.volume = snapshot.volume.plus(value);
+  if (valueUsd) snapshot.volumeUsd = snapshot.volumeUsd.plus(valueUsd);
+
+  let buyers = snapshot.buyers;
+  if (buyers.indexOf(buyer) == -1) {
+    buyers.push(buyer);
+    snapshot.buyers = buyers;
+    snapshot.uniqueBuyers = snapshot.uniqueBuyers.plus(BIGINT_ONE);
+  }
+
+  let sellers = snapshot.sellers;
+  if (sellers.indexOf(seller) == -1) {
+    sellers.push(seller);
+    snapshot.sellers = sellers;
+    snapshot.uniqueSellers = snapshot.uniqueSellers.plus(BIGINT_ONE);
+  }
+}
+
+/**
+ * Gets or creates the MarketHourSnapshot for a timestamp.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity for the same day.
+ * @returns The MarketHourSnapshot entity.
+ */
+export function getOrCreateMarketHourSnapshot(timestamp: BigInt, state: State): MarketHourSnapshot {
+  let hour = timestamp.toI32() / SECONDS_PER_HOUR;
+  let id = hour.toString();
+
+  let snapshot = MarketHourSnapshot.load(id);
+  if (snapshot == null) {
+    snapshot = new MarketHourSnapshot(id);
+    initSnapshot<MarketHourSnapshot>(snapshot, state, hour * SECONDS_PER_HOUR);
+    snapshot.save();
+  }
+
+  return snapshot as MarketHourSnapshot;
+}
+
+/**
+ * Gets or creates the MarketDaySnapshot for a State.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity for the same day.
+ * @returns The MarketDaySnapshot entity.
+ */
+export function getOrCreateMarketDaySnapshot(timestamp: BigInt, state: State): MarketDaySnapshot {
+  let snapshot = MarketDaySnapshot.load(state.id);
+  if (snapshot == null) {
+    snapshot = new MarketDaySnapshot(state.id);
+    let day = timestamp.toI32() / SECONDS_PER_DAY;
+    initSnapshot<MarketDaySnapshot>(snapshot, state, day * SECONDS_PER_DAY);
+    snapshot.save();
+  }
+
+  return snapshot as MarketDaySnapshot;
+}
+
+/**
+ * Records the current State floor in the hour and day snapshots.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity.
+ */
+export function updateSnapshotFloor(timestamp: BigInt, state: State): void {
+  let hourSnapshot = getOrCreateMarketHourSnapshot(timestamp, state);
+  applyFloor<MarketHourSnapshot>(hourSnapshot, state.floor);
+  hourSnapshot.save();
+
+  let daySnapshot = getOrCreateMarketDaySnapshot(timestamp, state);
+  applyFloor<MarketDaySnapshot>(daySnapshot, state.floor);
+  daySnapshot.save();
+}
+
+/**
+ * Records a sale in the hour and day snapshots.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity.
+ * @param value - The sale value in wei.
+ * @param valueUsd - The sale value in US dollars, or null to leave it out of the dollar volume.
+ * @param buyer - The buyer's account ID.
+ * @param seller - The seller's account ID.
+ */
+export function recordSnapshotSale(
+  timestamp: BigInt,
+  state: State,
+  value: BigInt,
+  valueUsd: BigDecimal | null,
+  buyer: string,
+  seller: string,
+): void {
+  let hourSnapshot = getOrCreateMarketHourSnapshot(timestamp, state);
+  applySale<MarketHourSnapshot>(hourSnapshot, value, valueUsd, buyer, seller);
+  hourSnapshot.save();
+
+  let daySnapshot = getOrCreateMarketDaySnapshot(timestamp, state);
+  applySale<MarketDaySnapshot>(daySnapshot, value, valueUsd, buyer, seller);
+  daySnapshot.save();
+}
+
+/**
+ * Records a new bid in the hour and day snapshots.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity.
+ */
+export function recordSnapshotBid(timestamp: BigInt, state: State): void {
+  let hourSnapshot = getOrCreateMarketHourSnapshot(timestamp, state);
+  hourSnapshot.bids = hourSnapshot.bids.plus(BIGINT_ONE);
+  hourSnapshot.save();
+
+  let daySnapshot = getOrCreateMarketDaySnapshot(timestamp, state);
+  daySnapshot.bids = daySnapshot.bids.plus(BIGINT_ONE);
+  daySnapshot.save();
+}
+
+/**
+ * Records a new listing in the hour and day snapshots.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity.
+ */
+export function recordSnapshotListing(timestamp: BigInt, state: State): void {
+  let hourSnapshot = getOrCreateMarketHourSnapshot(timestamp, state);
+  hourSnapshot.listings = hourSnapshot.listings.plus(BIGINT_ONE);
+  hourSnapshot.save();
+
+  let daySnapshot = getOrCreateMarketDaySnapshot(timestamp, state);
+  daySnapshot.listings = daySnapshot.listings.plus(BIGINT_ONE);
+  daySnapshot.save();
+}
+
+/**
+ * Records a delisting in the hour and day snapshots.
+ * @param timestamp - The block timestamp.
+ * @param state - The State entity.
+ */
+export function recordSnapshotDelisting(timestamp: BigInt, state: State): void {
+  let hourSnapshot = getOrCreateMarketHourSnapshot(timestamp, state);
+  hourSnapshot.delistings = hourSnapshot.delistings.plus(BIGINT_ONE);
+  hourSnapshot.save();
+
+  let daySnapshot = getOrCreateMarketDaySnapshot(timestamp, state);
+  daySnapshot.delistings = daySnapshot.delistings.plus(BIGINT_ONE);
+  daySnapshot.save();
+}
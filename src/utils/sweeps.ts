@@ -0,0 +1,92 @@
+/**
+ * @file sweeps.ts
+ * @description Groups the sales a buyer makes in one block into a Sweep, covering aggregator
+ * sweeps and bundle buys whether they land in one transaction or several. Sales bought by a
+ * contract on someone's behalf are attributed to the account that sent the transaction.
+ */
+
+import { BigDecimal, BigInt } from '@graphprotocol/graph-ts';
+
+import { Event, Sweep, Transaction } from '../../generated/schema';
+
+import { BIGINT_ZERO, SALE_TYPE_BID_ACCEPTED } from './constants';
+import { getOrCreateAccount } from './helpers';
+
+/**
+ * Adds a Sale event to a sweep and saves both.
+ * @param sweep - The Sweep entity.
+ * @param sale - The Sale Event entity.
+ */
+function addSweepSale(sweep: Sweep, sale: Event): void {
+  let punks = sweep.punks;
+  punks.push(sale.tokenId.toString());
+  sweep.punks = punks;
+  sweep.punkCount = punks.length;
+
+  let transactions = sweep.transactions;
+  if (!transactions.includes(sale.transaction)) {
+    transactions.push(sale.transaction);
+    sweep.transactions = transactions;
+  }
+
+  sweep.totalSpent = sweep.totalSpent.plus(sale.value);
+  let valueUsd = sale.valueUsd;
+  if (valueUsd) sweep.totalSpentUsd = sweep.totalSpentUsd.plus(valueUsd);
+  sweep.averagePrice = sweep.totalSpent.div(BigInt.fromI32(sweep.punkCount));
+  sweep.save();
+
+  sale.sweep = sweep.id;
+  sale.save();
+}
+
+/**
+ * Gets the account a sale is attributed to.
+ * Accepted bids are sent by the seller; otherwise a market buyer other than the sender
+ * is a contract, such as an aggregator, buying for the sender.
+ * @param sale - The saved Sale Event entity, linked to its Transaction.
+ * @returns The sender's account ID for purchases made through a contract, else the market buyer's.
+ */
+export function getSaleBuyer(sale: Event): string {
+  let marketBuyer = sale.toAccount as string;
+  if (sale.saleType == SALE_TYPE_BID_ACCEPTED) return marketBuyer;
+
+  let transaction = Transaction.load(sale.transaction) as Transaction;
+  return transaction.from.toHexString();
+}
+
+/**
+ * Records a sale on its buyer and groups it into a Sweep when the buyer already bought
+ * another punk in the same block. The first purchase joins the sweep once the second arrives.
+ * @param sale - The saved Sale Event entity, linked to its Transaction.
+ */
+export function recordSweepPurchase(sale: Event): void {
+  let marketBuyer = sale.toAccount as string;
+  let buyer = getOrCreateAccount(getSaleBuyer(sale));
+  let aggregator: string | null = buyer.id != marketBuyer ? marketBuyer : null;
+
+  let lastPurchase = buyer.lastPurchase;
+  let prevSale = lastPurchase ? Event.load(lastPurchase as string) : null;
+
+  if (prevSale && prevSale.blockNumber.equals(sale.blockNumber)) {
+    let id = buyer.id + '-' + sale.blockNumber.toString();
+    let sweep = Sweep.load(id);
+    if (sweep == null) {
+      sweep = new Sweep(id);
+      sweep.buyer = buyer.id;
+      sweep.aggregator = aggregator;
+      sweep.punks = [];
+      sweep.punkCount = 0;
+      sweep.totalSpent = BIGINT_ZERO;
+      sweep.totalSpentUsd = BigDecimal.zero();
+      sweep.averagePrice = BIGINT_ZERO;
+      sweep.transactions = [];
+      sweep.blockNumber = sale.blockNumber;
+      sweep.blockTimestamp = sale.blockTimestamp;
+      addSweepSale(sweep, prevSale);
+    }
+    addSweepSale(sweep, sale);
+  }
+
+  buyer.lastPurchase = sale.id;
+  buyer.save();
+}
@@ -0,0 +1,156 @@
+/**
+ * @file traits.ts
+ * @description Seeds Trait and PunkTrait entities from the bundled punk attribute data
+ * and maintains the per-trait TraitMarket entities.
+ */
+
+import { BigInt } from '@graphprotocol/graph-ts';
+
+import { ListingBook, Punk, PunkTrait, Trait, TraitMarket } from '../../generated/schema';
+
+import { BIGINT_ONE, BIGINT_ZERO, TRAIT_CATEGORY_TYPE } from './constants';
+import { addActiveListing, getOrCreateListingBook, removeActiveListing } from './listing-index';
+import { punkTraitOffsets, punkTraits, traitCategories, traitNames, traitRarities } from './traits-data';
+
+/**
+ * Gets or creates the Trait entity for a trait index of the bundled data.
+ * @param index - The trait index.
+ * @returns The Trait entity.
+ */
+export function getOrCreateTrait(index: i32): Trait {
+  let id = traitNames[index];
+
+  let trait = Trait.load(id);
+  if (trait == null) {
+    trait = new Trait(id);
+    trait.name = traitNames[index];
+    trait.category = traitCategories[index];
+    trait.rarity = BigInt.fromI32(traitRarities[index]);
+    trait.save();
+  }
+
+  return trait as Trait;
+}
+
+/**
+ * Links a newly created punk to its traits and sets its type.
+ * The caller saves the punk.
+ * @param punk - The Punk entity.
+ */
+export function seedPunkTraits(punk: Punk): void {
+  let index = I32.parseInt(punk.id);
+  if (index < 0 || index + 1 >= punkTraitOffsets.length) return;
+
+  for (let i = punkTraitOffsets[index]; i < punkTraitOffsets[index + 1]; i++) {
+    let trait = getOrCreateTrait(punkTraits[i]);
+    if (trait.category == TRAIT_CATEGORY_TYPE) punk.type = trait.name;
+
+    let punkTrait = new PunkTrait(punk.id.concat('-').concat(trait.id));
+    punkTrait.punk = punk.id;
+    punkTrait.trait = trait.id;
+    punkTrait.save();
+  }
+}
+
+/**
+ * Gets the trait IDs of a punk from the bundled data.
+ * @param punkId - The punk ID.
+ * @returns The trait IDs, empty if the punk is not in the data.
+ */
+export function getPunkTraitIds(punkId: string): string[] {
+  let ids: string[] = [];
+
+  let index = I32.parseInt(punkId);
+  if (index < 0 || index + 1 >= punkTraitOffsets.length) return ids;
+
+  for (let i = punkTraitOffsets[index]; i < punkTraitOffsets[index + 1]; i++) {
+    ids.push(traitNames[punkTraits[i]]);
+  }
+
+  return ids;
+}
+
+/**
+ * Builds the ID of the ListingBook indexing a trait's active listings.
+ * @param traitId - The trait ID.
+ * @returns The ListingBook ID.
+ */
+function getTraitBookId(traitId: string): string {
+  return 'trait-' + traitId;
+}
+
+/**
+ * Gets or creates the TraitMarket entity for a trait.
+ * @param traitId - The trait ID.
+ * @returns The TraitMarket entity.
+ */
+export function getOrCreateTraitMarket(traitId: string): TraitMarket {
+  let market = TraitMarket.load(traitId);
+  if (market == null) {
+    market = new TraitMarket(traitId);
+    market.trait = traitId;
+    market.floor = BIGINT_ZERO;
+    market.book = getOrCreateListingBook(getTraitBookId(traitId)).id;
+    market.activeListingCount = BIGINT_ZERO;
+    market.sales = BIGINT_ZERO;
+    market.volume = BIGINT_ZERO;
+    market.lastSale = null;
+  }
+
+  return market as TraitMarket;
+}
+
+/**
+ * Copies the listing count and floor of a trait's ListingBook to its TraitMarket.
+ * @param market - The TraitMarket entity.
+ * @param book - The trait's ListingBook entity.
+ */
+function applyTraitBook(market: TraitMarket, book: ListingBook): void {
+  let floor = book.floor;
+  market.activeListingCount = BigInt.fromI32(book.size);
+  market.floor = floor ? floor : BIGINT_ZERO;
+}
+
+/**
+ * Adds a punk's listing to the markets of its traits, or updates it if already listed.
+ * @param punkId - The punk ID.
+ * @param value - The listing value in wei.
+ */
+export function addTraitListing(punkId: string, value: BigInt): void {
+  let traitIds = getPunkTraitIds(punkId);
+  for (let i = 0; i < traitIds.length; i++) {
+    let market = getOrCreateTraitMarket(traitIds[i]);
+    applyTraitBook(market, addActiveListing(getTraitBookId(traitIds[i]), punkId, value));
+    market.save();
+  }
+}
+
+/**
+ * Removes a punk's listing from the markets of its traits.
+ * @param punkId - The punk ID.
+ */
+export function removeTraitListing(punkId: string): void {
+  let traitIds = getPunkTraitIds(punkId);
+  for (let i = 0; i < traitIds.length; i++) {
+    let market = getOrCreateTraitMarket(traitIds[i]);
+    applyTraitBook(market, removeActiveListing(getTraitBookId(traitIds[i]), punkId));
+    market.save();
+  }
+}
+
+/**
+ * Records a sale in the markets of the punk's traits.
+ * @param punkId - The punk ID.
+ * @param value - The sale value in wei.
+ * @param eventId - The ID of the Sale event.
+ */
+export function recordTraitSale(punkId: string, value: BigInt, eventId: string): void {
+  let traitIds = getPunkTraitIds(punkId);
+  for (let i = 0; i < traitIds.length; i++) {
+    let market = getOrCreateTraitMarket(traitIds[i]);
+    market.sales = market.sales.plus(BIGINT_ONE);
+    market.volume = market.volume.plus(value);
+    market.lastSale = eventId;
+    market.save();
+  }
+}
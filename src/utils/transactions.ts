@@ -0,0 +1,57 @@
+/**
+ * @file transactions.ts
+ * @description Helpers for the Transaction entity, which groups the events of one transaction
+ * so sweeps and batch transfers can be read as a whole.
+ */
+
+import { ethereum } from '@graphprotocol/graph-ts';
+
+import { Event, Transaction } from '../../generated/schema';
+
+/**
+ * Gets or creates the Transaction entity of an event.
+ * @param event - The ethereum event.
+ * @returns The Transaction entity, not yet saved if new.
+ */
+export function getOrCreateTransaction(event: ethereum.Event): Transaction {
+  let id = event.transaction.hash.toHexString();
+
+  let transaction = Transaction.load(id);
+  if (transaction == null) {
+    transaction = new Transaction(id);
+    transaction.from = event.transaction.from;
+    transaction.to = event.transaction.to;
+    transaction.value = event.transaction.value;
+    transaction.gasPrice = event.transaction.gasPrice;
+
+    let receipt = event.receipt;
+    transaction.gasUsed = receipt ? receipt.gasUsed : null;
+
+    transaction.blockNumber = event.block.number;
+    transaction.blockTimestamp = event.block.timestamp;
+    transaction.punks = [];
+    transaction.punkCount = 0;
+  }
+
+  return transaction as Transaction;
+}
+
+/**
+ * Links an Event to its Transaction and counts the punk it touches.
+ * @param evnt - The Event entity, with its tokenId set.
+ * @param event - The ethereum event it was created from.
+ */
+export function setEventTransaction(evnt: Event, event: ethereum.Event): void {
+  let transaction = getOrCreateTransaction(event);
+
+  let punkId = evnt.tokenId.toString();
+  let punks = transaction.punks;
+  if (!punks.includes(punkId)) {
+    punks.push(punkId);
+    transaction.punks = punks;
+    transaction.punkCount = punks.length;
+  }
+  transaction.save();
+
+  evnt.transaction = transaction.id;
+}
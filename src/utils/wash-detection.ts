@@ -0,0 +1,73 @@
+/**
+ * @file wash-detection.ts
+ * @description Heuristics flagging sales that are likely wash trades.
+ */
+
+import { BigInt, ethereum } from '@graphprotocol/graph-ts';
+
+import { Event, Punk } from '../../generated/schema';
+
+import {
+  BIGINT_ZERO,
+  FLAG_REASON_ABOVE_FLOOR,
+  FLAG_REASON_ROUND_TRIP,
+  WASH_ABOVE_FLOOR_MULTIPLE,
+  WASH_ABOVE_FLOOR_WINDOW,
+  WASH_ROUND_TRIP_WINDOW,
+} from './constants';
+
+/**
+ * Checks a sale against the wash trade heuristics. Must run before the ownership update.
+ * - RoundTrip: the seller got the punk from the buyer within the window, by a sale or a plain
+ *   transfer, so the punk goes straight back to where it came from.
+ * - AboveFloor: the sale is far above the floor and the seller has only just acquired the punk.
+ * @param event - The PunkBought event.
+ * @param punk - The Punk entity before the ownership update.
+ * @param seller - The seller's account ID.
+ * @param buyer - The buyer's account ID.
+ * @param value - The sale value in wei.
+ * @param floor - The prevailing floor price.
+ * @returns The flag reasons, empty if the sale looks genuine.
+ */
+export function detectWashTrade(
+  event: ethereum.Event,
+  punk: Punk,
+  seller: string,
+  buyer: string,
+  value: BigInt,
+  floor: BigInt,
+): string[] {
+  let reasons: string[] = [];
+  let timestamp = event.block.timestamp;
+
+  let acquiredBySale = false;
+  let lastSaleId = punk.lastSale;
+  if (lastSaleId) {
+    let lastSale = Event.load(lastSaleId);
+    if (lastSale && lastSale.toAccount == seller) {
+      acquiredBySale = true;
+      if (lastSale.fromAccount == buyer && timestamp.minus(lastSale.blockTimestamp).le(WASH_ROUND_TRIP_WINDOW)) {
+        reasons.push(FLAG_REASON_ROUND_TRIP);
+      }
+    }
+  }
+
+  let lastTransferTimestamp = punk.lastTransferTimestamp;
+  if (!lastTransferTimestamp) return reasons;
+  let heldFor = timestamp.minus(lastTransferTimestamp);
+
+  let previousOwner = punk.previousOwner;
+  if (!acquiredBySale && previousOwner && previousOwner == buyer && heldFor.le(WASH_ROUND_TRIP_WINDOW)) {
+    reasons.push(FLAG_REASON_ROUND_TRIP);
+  }
+
+  if (
+    floor.gt(BIGINT_ZERO) &&
+    value.gt(floor.times(WASH_ABOVE_FLOOR_MULTIPLE)) &&
+    heldFor.le(WASH_ABOVE_FLOOR_WINDOW)
+  ) {
+    reasons.push(FLAG_REASON_ABOVE_FLOOR);
+  }
+
+  return reasons;
+}
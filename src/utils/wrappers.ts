@@ -0,0 +1,227 @@
+/**
+ * @file wrappers.ts
+ * @description Registry of the punk wrapper contracts and helpers for their wrapped tokens.
+ * A wrapped punk is owned by the holder of its wrapped token, not by the wrapper contract.
+ */
+
+import { BigInt, ethereum } from '@graphprotocol/graph-ts';
+
+import { Event, Punk, Wrapper, WrapperProxy } from '../../generated/schema';
+
+import {
+  BIGINT_ONE,
+  BIGINT_ZERO,
+  CRYPTOPUNKS_721_ADDRESS,
+  HOLDING_METHOD_UNWRAP,
+  HOLDING_METHOD_WRAP,
+  WRAPPED_PUNKS_ADDRESS,
+  ZERO_ADDRESS,
+} from './constants';
+import { setCurrencyValues, setUSDValues } from './conversions';
+import { applyManualFlag } from './flagged-transactions';
+import {
+  getGlobalId,
+  getOrCreateAccount,
+  getOrCreateMarketTotals,
+  getOrCreatePunk,
+  getOrCreateState,
+  updateOwnership,
+} from './helpers';
+import { setEventTransaction } from './transactions';
+
+/**
+ * Represents a known wrapper contract.
+ */
+export class KnownWrapper {
+  name: string;
+  address: string;
+
+  /**
+   * Creates a new KnownWrapper instance.
+   * @param name - The human-readable name of the wrapper.
+   * @param address - The lowercase contract address.
+   */
+  constructor(name: string, address: string) {
+    this.name = name;
+    this.address = address;
+  }
+}
+
+/**
+ * An array of the wrapper contracts punks can be moved into.
+ */
+export let knownWrappers: KnownWrapper[] = [
+  new KnownWrapper('WrappedPunks', WRAPPED_PUNKS_ADDRESS),
+  new KnownWrapper('CryptoPunks721', CRYPTOPUNKS_721_ADDRESS),
+];
+
+let wrapperAddress: string;
+
+/**
+ * Retrieves the name of a wrapper given its address.
+ * @param address - The contract address.
+ * @returns The name of the wrapper if found, or an empty string if not found.
+ */
+export function getWrapperName(address: string): string {
+  wrapperAddress = address.toLowerCase();
+  let wrapperIndex = knownWrappers.findIndex((wrapper) => wrapper.address == wrapperAddress);
+  if (wrapperIndex === -1) {
+    return '';
+  }
+  return knownWrappers[wrapperIndex].name;
+}
+
+/**
+ * Checks whether an address is one of the known wrapper contracts.
+ * @param address - The contract address.
+ * @returns True if the address is a wrapper contract.
+ */
+export function isWrapperAddress(address: string): boolean {
+  return getWrapperName(address) != '';
+}
+
+/**
+ * Gets or creates the Wrapper entity for a known wrapper contract.
+ * @param address - The lowercase contract address.
+ * @returns The Wrapper entity.
+ */
+export function getOrCreateWrapper(address: string): Wrapper {
+  let wrapper = Wrapper.load(address);
+  if (wrapper == null) {
+    wrapper = new Wrapper(address);
+    wrapper.name = getWrapperName(address);
+    wrapper.wrapped = BIGINT_ZERO;
+    wrapper.save();
+  }
+
+  return wrapper as Wrapper;
+}
+
+let wrapperProxyId: string;
+/**
+ * Records the proxy a wrapper deployed for a user, which the user transfers punks to before minting.
+ * A proxy found only once it wraps a punk already holds the punks stashed in it, and those were
+ * counted as its own; they are taken back from the holder count and the punks' owners.
+ * @param event - The event revealing the proxy.
+ * @param wrapper - The wrapper contract address.
+ * @param user - The user's address.
+ * @param proxy - The proxy contract address.
+ */
+export function registerWrapperProxy(event: ethereum.Event, wrapper: string, user: string, proxy: string): void {
+  if (WrapperProxy.load(proxy)) return;
+
+  let wrapperProxy = new WrapperProxy(proxy);
+  wrapperProxy.wrapper = getOrCreateWrapper(wrapper).id;
+  wrapperProxy.user = getOrCreateAccount(user).id;
+  wrapperProxy.save();
+
+  let account = getOrCreateAccount(proxy);
+  let punkIds = account.punks;
+  if (punkIds.length == 0) return;
+
+  let state = getOrCreateState(event.block.timestamp);
+  state.owners = state.owners.minus(BIGINT_ONE);
+  state.save();
+
+  let totals = getOrCreateMarketTotals();
+  totals.holders = totals.holders.minus(BIGINT_ONE);
+  totals.save();
+
+  wrapperProxyId = proxy;
+  for (let i = 0; i < punkIds.length; i++) {
+    let punk = getOrCreatePunk(punkIds[i]);
+    let owners = punk.owners.filter((id) => id != wrapperProxyId);
+    punk.owners = owners;
+    punk.ownerCount = BigInt.fromI32(owners.length);
+    punk.save();
+  }
+}
+
+/**
+ * Registers the sender of a punk moving into CryptoPunks721 as a user proxy when it looks like one.
+ * CryptoPunks721 emits nothing when it creates a proxy: the user stashes the punk in their proxy
+ * and then calls the wrapper, which has the proxy transfer the punk in.
+ * @param event - The PunkTransfer event moving the punk into the wrapper.
+ * @param punk - The Punk entity, before the ownership update.
+ * @param wrapper - The wrapper contract address.
+ * @param from - The address the punk is transferred from.
+ */
+export function detectWrapperProxy(event: ethereum.Event, punk: Punk, wrapper: string, from: string): void {
+  if (wrapper != CRYPTOPUNKS_721_ADDRESS || isWrapperIntermediary(from)) return;
+
+  // Only a proxy sends the punk in without sending the transaction, after its user stashed it there
+  let user = event.transaction.from.toHexString();
+  let previousOwner = punk.previousOwner;
+  if (from == user || !previousOwner || previousOwner != user) return;
+
+  registerWrapperProxy(event, wrapper, user, from);
+}
+
+/**
+ * Checks whether an address is a wrapper contract or a proxy one deployed for a user.
+ * Punks only pass through these on their way into or out of a wrapper.
+ * @param address - The lowercase address.
+ * @returns True if the address is a wrapper or a registered proxy.
+ */
+export function isWrapperIntermediary(address: string): boolean {
+  return isWrapperAddress(address) || WrapperProxy.load(address) != null;
+}
+
+/**
+ * Handles a Transfer of a wrapped punk token.
+ * Mints move the punk from the wrapper to the minter, burns hand it back to the wrapper
+ * until the market transfers it out, and other transfers move it between holders.
+ * @param event - The wrapper's Transfer event.
+ * @param wrapper - The wrapper contract address.
+ * @param from - The previous token holder.
+ * @param to - The new token holder.
+ * @param tokenId - The wrapped token ID, equal to the punk index.
+ */
+export function handleWrappedTransfer(
+  event: ethereum.Event,
+  wrapper: string,
+  from: string,
+  to: string,
+  tokenId: BigInt,
+): void {
+  let punkId = tokenId.toString();
+  let punk = getOrCreatePunk(punkId);
+
+  // Mint: the market transfer into the wrapper comes first
+  if (from == ZERO_ADDRESS) {
+    if (punk.owner == wrapper) updateOwnership(event, punkId, to, wrapper, HOLDING_METHOD_WRAP);
+    return;
+  }
+
+  // Burn: skip if the market transfer out of the wrapper was already handled
+  if (to == ZERO_ADDRESS) {
+    if (punk.wrapped && punk.owner == from) {
+      updateOwnership(event, punkId, wrapper, from, HOLDING_METHOD_UNWRAP);
+    }
+    return;
+  }
+
+  let fromAccount = getOrCreateAccount(from);
+  let toAccount = getOrCreateAccount(to);
+
+  // Events
+  let evntId = getGlobalId(event);
+  let evnt = new Event(evntId);
+
+  evnt.type = 'WrappedTransfer';
+  evnt.tokenId = tokenId;
+  evnt.fromAccount = fromAccount.id;
+  evnt.toAccount = toAccount.id;
+  evnt.value = BIGINT_ZERO;
+  setUSDValues<Event>(evnt, event.block.timestamp, event.block.number);
+  setCurrencyValues(evnt, event.block.timestamp, event.block.number);
+
+  evnt.blockNumber = event.block.number;
+  evnt.blockTimestamp = event.block.timestamp;
+  evnt.transactionHash = event.transaction.hash;
+  setEventTransaction(evnt, event);
+  applyManualFlag(evnt);
+  evnt.save();
+
+  updateOwnership(event, punkId, toAccount.id, fromAccount.id);
+}
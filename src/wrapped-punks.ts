@@ -0,0 +1,31 @@
+/**
+ * @file wrapped-punks.ts
+ * @description Handles events from the legacy WrappedPunks contract.
+ */
+
+import { ProxyRegistered as ProxyRegisteredEvent, Transfer as TransferEvent } from '../generated/WrappedPunks/WrappedPunks';
+
+import { WRAPPED_PUNKS_ADDRESS } from './utils/constants';
+import { handleWrappedTransfer, registerWrapperProxy } from './utils/wrappers';
+
+/**
+ * Handles the Transfer event.
+ * @param event - The TransferEvent object.
+ */
+export function handleTransfer(event: TransferEvent): void {
+  handleWrappedTransfer(
+    event,
+    WRAPPED_PUNKS_ADDRESS,
+    event.params.from.toHexString(),
+    event.params.to.toHexString(),
+    event.params.tokenId,
+  );
+}
+
+/**
+ * Handles the ProxyRegistered event.
+ * @param event - The ProxyRegisteredEvent object.
+ */
+export function handleProxyRegistered(event: ProxyRegisteredEvent): void {
+  registerWrapperProxy(event, WRAPPED_PUNKS_ADDRESS, event.params.user.toHexString(), event.params.proxy.toHexString());
+}
@@ -0,0 +1,15 @@
+import { Address, BigInt, ethereum } from '@graphprotocol/graph-ts';
+import { newMockEvent } from 'matchstick-as/assembly/index';
+
+import { Transfer } from '../generated/CryptoPunks721/CryptoPunks721';
+
+export function createTransferEvent(from: Address, to: Address, tokenId: BigInt): Transfer {
+  let transferEvent = changetype<Transfer>(newMockEvent());
+
+  transferEvent.parameters = new Array();
+  transferEvent.parameters.push(new ethereum.EventParam('from', ethereum.Value.fromAddress(from)));
+  transferEvent.parameters.push(new ethereum.EventParam('to', ethereum.Value.fromAddress(to)));
+  transferEvent.parameters.push(new ethereum.EventParam('tokenId', ethereum.Value.fromUnsignedBigInt(tokenId)));
+
+  return transferEvent;
+}
@@ -0,0 +1,84 @@
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts';
+import { newMockEvent } from 'matchstick-as/assembly/index';
+
+import {
+  Assign,
+  PunkBought,
+  PunkNoLongerForSale,
+  PunkOffered,
+  PunkTransfer,
+} from '../generated/CryptoPunksMarket/CryptoPunksMarket';
+
+/**
+ * Places a mock event in a block with a single transaction, so events of one test get distinct IDs
+ * and events given the same block share their transaction.
+ * @param event - The mock event.
+ * @param block - The block number; the block timestamp is 12 seconds per block.
+ * @param logIndex - The log index.
+ */
+export function setEventPosition(event: ethereum.Event, block: i32, logIndex: i32): void {
+  event.block.number = BigInt.fromI32(block);
+  event.block.timestamp = BigInt.fromI32(block * 12);
+  event.transaction.hash = Bytes.fromI32(block);
+  event.logIndex = BigInt.fromI32(logIndex);
+}
+
+export function createAssignEvent(to: Address, punkIndex: BigInt): Assign {
+  let assignEvent = changetype<Assign>(newMockEvent());
+
+  assignEvent.parameters = new Array();
+  assignEvent.parameters.push(new ethereum.EventParam('to', ethereum.Value.fromAddress(to)));
+  assignEvent.parameters.push(new ethereum.EventParam('punkIndex', ethereum.Value.fromUnsignedBigInt(punkIndex)));
+
+  return assignEvent;
+}
+
+export function createPunkTransferEvent(from: Address, to: Address, punkIndex: BigInt): PunkTransfer {
+  let punkTransferEvent = changetype<PunkTransfer>(newMockEvent());
+
+  punkTransferEvent.parameters = new Array();
+  punkTransferEvent.parameters.push(new ethereum.EventParam('from', ethereum.Value.fromAddress(from)));
+  punkTransferEvent.parameters.push(new ethereum.EventParam('to', ethereum.Value.fromAddress(to)));
+  punkTransferEvent.parameters.push(new ethereum.EventParam('punkIndex', ethereum.Value.fromUnsignedBigInt(punkIndex)));
+
+  return punkTransferEvent;
+}
+
+export function createPunkOfferedEvent(punkIndex: BigInt, minValue: BigInt, toAddress: Address): PunkOffered {
+  let punkOfferedEvent = changetype<PunkOffered>(newMockEvent());
+
+  punkOfferedEvent.parameters = new Array();
+  punkOfferedEvent.parameters.push(new ethereum.EventParam('punkIndex', ethereum.Value.fromUnsignedBigInt(punkIndex)));
+  punkOfferedEvent.parameters.push(new ethereum.EventParam('minValue', ethereum.Value.fromUnsignedBigInt(minValue)));
+  punkOfferedEvent.parameters.push(new ethereum.EventParam('toAddress', ethereum.Value.fromAddress(toAddress)));
+
+  return punkOfferedEvent;
+}
+
+export function createPunkBoughtEvent(
+  punkIndex: BigInt,
+  value: BigInt,
+  fromAddress: Address,
+  toAddress: Address,
+): PunkBought {
+  let punkBoughtEvent = changetype<PunkBought>(newMockEvent());
+
+  punkBoughtEvent.parameters = new Array();
+  punkBoughtEvent.parameters.push(new ethereum.EventParam('punkIndex', ethereum.Value.fromUnsignedBigInt(punkIndex)));
+  punkBoughtEvent.parameters.push(new ethereum.EventParam('value', ethereum.Value.fromUnsignedBigInt(value)));
+  punkBoughtEvent.parameters.push(new ethereum.EventParam('fromAddress', ethereum.Value.fromAddress(fromAddress)));
+  punkBoughtEvent.parameters.push(new ethereum.EventParam('toAddress', ethereum.Value.fromAddress(toAddress)));
+
+  return punkBoughtEvent;
+}
+
+export function createPunkNoLongerForSaleEvent(punkIndex: BigInt): PunkNoLongerForSale {
+  let punkNoLongerForSaleEvent = changetype<PunkNoLongerForSale>(newMockEvent());
+
+  punkNoLongerForSaleEvent.parameters = new Array();
+  punkNoLongerForSaleEvent.parameters.push(
+    new ethereum.EventParam('punkIndex', ethereum.Value.fromUnsignedBigInt(punkIndex)),
+  );
+
+  return punkNoLongerForSaleEvent;
+}
@@ -0,0 +1,66 @@
+import { BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index';
+
+import { PERCENTILE_HIGH_BOOK_ID, PERCENTILE_LOW_BOOK_ID } from '../src/utils/constants';
+import { addPercentileListing, getPercentileFloor, removePercentileListing } from '../src/utils/floors';
+
+/**
+ * Lists punks 1 to n, punk i at i wei.
+ * @param count - The number of punks to list.
+ */
+function listPunks(count: i32): void {
+  // Out of price order, so listings land in both books before rebalancing
+  for (let i = count; i >= 1; i -= 2) addPercentileListing(i.toString(), BigInt.fromI32(i));
+  for (let i = count - 1; i >= 1; i -= 2) addPercentileListing(i.toString(), BigInt.fromI32(i));
+}
+
+describe('Percentile floor', () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test('holds the cheapest 5 percent of listings in the low book', () => {
+    listPunks(40);
+
+    // The 5th percentile of 40 listings is the 2nd cheapest
+    assert.fieldEquals('ListingBook', PERCENTILE_LOW_BOOK_ID, 'size', '2');
+    assert.fieldEquals('ListingBook', PERCENTILE_HIGH_BOOK_ID, 'size', '38');
+    assert.bigIntEquals(BigInt.fromI32(2), getPercentileFloor());
+  });
+
+  test('rebalances after removals', () => {
+    listPunks(40);
+
+    // Emptying the low book pulls the cheapest listings up from the high book
+    removePercentileListing('1');
+    removePercentileListing('2');
+    assert.fieldEquals('ListingBook', PERCENTILE_LOW_BOOK_ID, 'size', '2');
+    assert.fieldEquals('ListingBook', PERCENTILE_HIGH_BOOK_ID, 'size', '36');
+    assert.bigIntEquals(BigInt.fromI32(4), getPercentileFloor());
+
+    // With 18 listings left the percentile is the cheapest one, and the low book gives one back
+    for (let i = 21; i <= 40; i++) removePercentileListing(i.toString());
+    assert.fieldEquals('ListingBook', PERCENTILE_LOW_BOOK_ID, 'size', '1');
+    assert.fieldEquals('ListingBook', PERCENTILE_HIGH_BOOK_ID, 'size', '17');
+    assert.bigIntEquals(BigInt.fromI32(3), getPercentileFloor());
+
+    for (let i = 3; i <= 20; i++) removePercentileListing(i.toString());
+    assert.fieldEquals('ListingBook', PERCENTILE_LOW_BOOK_ID, 'size', '0');
+    assert.bigIntEquals(BigInt.zero(), getPercentileFloor());
+  });
+
+  test('moves a relisted punk between the books', () => {
+    listPunks(40);
+
+    // The most expensive listing becomes the cheapest
+    addPercentileListing('40', BigInt.fromI32(0));
+    assert.bigIntEquals(BigInt.fromI32(2), getPercentileFloor());
+    addPercentileListing('39', BigInt.fromI32(1));
+    assert.fieldEquals('ListingBook', PERCENTILE_LOW_BOOK_ID, 'size', '2');
+    assert.bigIntEquals(BigInt.fromI32(1), getPercentileFloor());
+
+    // The cheapest listing becomes the most expensive
+    addPercentileListing('1', BigInt.fromI32(100));
+    assert.bigIntEquals(BigInt.fromI32(2), getPercentileFloor());
+  });
+});
@@ -0,0 +1,139 @@
+import { Address, BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index';
+
+import { Punk } from '../generated/schema';
+import { handleTransfer as handleCryptoPunks721Transfer } from '../src/crypto-punks-721';
+import { handlePunkBought, handlePunkTransfer } from '../src/crypto-punks-market';
+import { CRYPTOPUNKS_721_ADDRESS, WRAPPED_PUNKS_ADDRESS, ZERO_ADDRESS } from '../src/utils/constants';
+import {
+  handleProxyRegistered,
+  handleTransfer as handleWrappedPunksTransfer,
+} from '../src/wrapped-punks';
+
+import { createTransferEvent as createCryptoPunks721TransferEvent } from './crypto-punks-721-utils';
+import { createPunkBoughtEvent, createPunkTransferEvent, setEventPosition } from './crypto-punks-market-utils';
+import { createProxyRegisteredEvent, createTransferEvent as createWrappedPunksTransferEvent } from './wrapped-punks-utils';
+
+const SELLER = Address.fromString('0x0000000000000000000000000000000000005e11');
+const OWNER = Address.fromString('0x000000000000000000000000000000000000000a');
+const PROXY = Address.fromString('0x00000000000000000000000000000000000000b0');
+const BUYER = Address.fromString('0x0000000000000000000000000000000000000b0b');
+
+const PUNK_ID = '1';
+const PUNK = BigInt.fromI32(1);
+
+const TEN_ETH = BigInt.fromString('10000000000000000000');
+const FIFTEEN_ETH = BigInt.fromString('15000000000000000000');
+const FIVE_ETH = BigInt.fromString('5000000000000000000');
+
+/**
+ * Gets the ID of a punk's open holding.
+ * @returns The Holding ID.
+ */
+function getCurrentHoldingId(): string {
+  return (Punk.load(PUNK_ID) as Punk).currentHolding as string;
+}
+
+/**
+ * Has OWNER buy the punk from SELLER for 10 ETH and stash it in PROXY, in blocks 1 and 2.
+ */
+function buyAndStash(): void {
+  let bought = createPunkBoughtEvent(PUNK, TEN_ETH, SELLER, OWNER);
+  setEventPosition(bought, 1, 1);
+  bought.transaction.from = OWNER;
+  handlePunkBought(bought);
+
+  let stashed = createPunkTransferEvent(OWNER, PROXY, PUNK);
+  setEventPosition(stashed, 2, 1);
+  stashed.transaction.from = OWNER;
+  handlePunkTransfer(stashed);
+}
+
+/**
+ * Checks that OWNER holds the punk at the 10 ETH it paid.
+ * @param method - The expected acquisition method of OWNER's holding.
+ */
+function assertOwnerCostBasis(method: string): void {
+  let holdingId = getCurrentHoldingId();
+  assert.fieldEquals('Punk', PUNK_ID, 'owner', OWNER.toHexString());
+  assert.fieldEquals('Holding', holdingId, 'account', OWNER.toHexString());
+  assert.fieldEquals('Holding', holdingId, 'acquisitionMethod', method);
+  assert.fieldEquals('Holding', holdingId, 'acquisitionValue', TEN_ETH.toString());
+  assert.fieldEquals('Account', OWNER.toHexString(), 'costBasis', TEN_ETH.toString());
+}
+
+describe('Holding', () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test('cost basis carries through a WrappedPunks wrap and unwrap to the realized profit', () => {
+    let registered = createProxyRegisteredEvent(OWNER, PROXY);
+    setEventPosition(registered, 1, 0);
+    handleProxyRegistered(registered);
+
+    buyAndStash();
+
+    // The proxy moves the punk into the wrapper, which mints the token to OWNER
+    let wrapped = createPunkTransferEvent(PROXY, Address.fromString(WRAPPED_PUNKS_ADDRESS), PUNK);
+    setEventPosition(wrapped, 3, 1);
+    wrapped.transaction.from = OWNER;
+    handlePunkTransfer(wrapped);
+
+    let minted = createWrappedPunksTransferEvent(Address.fromString(ZERO_ADDRESS), OWNER, PUNK);
+    setEventPosition(minted, 3, 2);
+    minted.transaction.from = OWNER;
+    handleWrappedPunksTransfer(minted);
+
+    assert.fieldEquals('Punk', PUNK_ID, 'wrapped', 'true');
+    assertOwnerCostBasis('Wrap');
+
+    // The burn hands the punk back to the wrapper, which transfers it out to OWNER
+    let burned = createWrappedPunksTransferEvent(OWNER, Address.fromString(ZERO_ADDRESS), PUNK);
+    setEventPosition(burned, 4, 1);
+    burned.transaction.from = OWNER;
+    handleWrappedPunksTransfer(burned);
+
+    let unwrapped = createPunkTransferEvent(Address.fromString(WRAPPED_PUNKS_ADDRESS), OWNER, PUNK);
+    setEventPosition(unwrapped, 4, 2);
+    unwrapped.transaction.from = OWNER;
+    handlePunkTransfer(unwrapped);
+
+    assert.fieldEquals('Punk', PUNK_ID, 'wrapped', 'false');
+    assertOwnerCostBasis('Unwrap');
+
+    let holdingId = getCurrentHoldingId();
+    let sold = createPunkBoughtEvent(PUNK, FIFTEEN_ETH, OWNER, BUYER);
+    setEventPosition(sold, 5, 1);
+    sold.transaction.from = BUYER;
+    handlePunkBought(sold);
+
+    assert.fieldEquals('Holding', holdingId, 'disposalMethod', 'Sale');
+    assert.fieldEquals('Holding', holdingId, 'realizedProfit', FIVE_ETH.toString());
+    assert.fieldEquals('Account', OWNER.toHexString(), 'costBasis', '0');
+    assert.fieldEquals('Account', BUYER.toHexString(), 'costBasis', FIFTEEN_ETH.toString());
+  });
+
+  test('cost basis carries through a CryptoPunks721 wrap, whose proxy is found as it wraps', () => {
+    buyAndStash();
+    assert.fieldEquals('Punk', PUNK_ID, 'ownerCount', '2');
+
+    // OWNER calls the wrapper, which has the proxy transfer the punk in and mints the token
+    let wrapped = createPunkTransferEvent(PROXY, Address.fromString(CRYPTOPUNKS_721_ADDRESS), PUNK);
+    setEventPosition(wrapped, 3, 1);
+    wrapped.transaction.from = OWNER;
+    handlePunkTransfer(wrapped);
+
+    assert.fieldEquals('WrapperProxy', PROXY.toHexString(), 'user', OWNER.toHexString());
+    assert.fieldEquals('Punk', PUNK_ID, 'ownerCount', '1');
+
+    let minted = createCryptoPunks721TransferEvent(Address.fromString(ZERO_ADDRESS), OWNER, PUNK);
+    setEventPosition(minted, 3, 2);
+    minted.transaction.from = OWNER;
+    handleCryptoPunks721Transfer(minted);
+
+    assert.fieldEquals('Punk', PUNK_ID, 'wrapped', 'true');
+    assert.fieldEquals('Punk', PUNK_ID, 'ownerCount', '1');
+    assertOwnerCostBasis('Wrap');
+  });
+});
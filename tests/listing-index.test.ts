@@ -0,0 +1,102 @@
+import { BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index';
+
+import { ActiveListing, ListingBook, ListingHeapNode } from '../generated/schema';
+import { addActiveListing, removeActiveListing } from '../src/utils/listing-index';
+
+const BOOK_ID = 'market';
+
+/**
+ * Lists punks 1 to n in a book at the given values.
+ * @param values - The listing values, the first for punk 1.
+ */
+function listPunks(values: i32[]): void {
+  for (let i = 0; i < values.length; i++) {
+    addActiveListing(BOOK_ID, (i + 1).toString(), BigInt.fromI32(values[i]));
+  }
+}
+
+/**
+ * Checks that no heap node is cheaper than its parent and that every active listing
+ * points at the node holding it.
+ */
+function assertHeap(): void {
+  let book = ListingBook.load(BOOK_ID) as ListingBook;
+  for (let position = 0; position < book.size; position++) {
+    let node = ListingHeapNode.load(BOOK_ID + '-' + position.toString()) as ListingHeapNode;
+    let activeListing = ActiveListing.load(node.activeListing) as ActiveListing;
+    assert.i32Equals(position, activeListing.position);
+    assert.bigIntEquals(activeListing.value, node.value);
+
+    if (position > 0) {
+      let parent = ListingHeapNode.load(BOOK_ID + '-' + ((position - 1) / 2).toString()) as ListingHeapNode;
+      assert.assertTrue(parent.value.le(node.value));
+    }
+  }
+  assert.notInStore('ListingHeapNode', BOOK_ID + '-' + book.size.toString());
+}
+
+describe('Listing index', () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test('insert keeps the cheapest listing at the root', () => {
+    listPunks([50, 30, 40, 10, 20]);
+
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '5');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'floor', '10');
+    assert.fieldEquals('ListingHeapNode', BOOK_ID + '-0', 'activeListing', BOOK_ID + '-4');
+    assertHeap();
+  });
+
+  test('remove fills the gap and moves the floor up', () => {
+    listPunks([50, 30, 40, 10, 20, 60, 70]);
+
+    removeActiveListing(BOOK_ID, '4');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '6');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'floor', '20');
+    assert.notInStore('ActiveListing', BOOK_ID + '-4');
+    assertHeap();
+
+    // A listing from the middle of the heap
+    removeActiveListing(BOOK_ID, '3');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '5');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'floor', '20');
+    assertHeap();
+
+    // Removing an unlisted punk changes nothing
+    removeActiveListing(BOOK_ID, '3');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '5');
+
+    removeActiveListing(BOOK_ID, '1');
+    removeActiveListing(BOOK_ID, '2');
+    removeActiveListing(BOOK_ID, '5');
+    removeActiveListing(BOOK_ID, '6');
+    removeActiveListing(BOOK_ID, '7');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '0');
+    let floor = (ListingBook.load(BOOK_ID) as ListingBook).floor;
+    assert.assertTrue(!floor);
+    assert.notInStore('ListingHeapNode', BOOK_ID + '-0');
+  });
+
+  test('replace moves a relisted punk to its new place', () => {
+    listPunks([50, 30, 40, 10, 20]);
+
+    addActiveListing(BOOK_ID, '1', BigInt.fromI32(5));
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '5');
+    assert.fieldEquals('ListingBook', BOOK_ID, 'floor', '5');
+    assert.fieldEquals('ActiveListing', BOOK_ID + '-1', 'value', '5');
+    assertHeap();
+
+    addActiveListing(BOOK_ID, '1', BigInt.fromI32(100));
+    assert.fieldEquals('ListingBook', BOOK_ID, 'floor', '10');
+    assertHeap();
+
+    // A relisting without a price takes the punk out of the book
+    addActiveListing(BOOK_ID, '1', BigInt.zero());
+    assert.fieldEquals('ListingBook', BOOK_ID, 'size', '4');
+    assert.notInStore('ActiveListing', BOOK_ID + '-1');
+    assertHeap();
+  });
+});
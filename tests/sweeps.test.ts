@@ -0,0 +1,80 @@
+import { Address, BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index';
+
+import { Punk } from '../generated/schema';
+import { handlePunkBought, handlePunkTransfer } from '../src/crypto-punks-market';
+
+import { createPunkBoughtEvent, createPunkTransferEvent, setEventPosition } from './crypto-punks-market-utils';
+
+const SELLER = Address.fromString('0x0000000000000000000000000000000000005e11');
+const AGGREGATOR = Address.fromString('0x00000000000000000000000000000000000a6660');
+const SWEEPER = Address.fromString('0x0000000000000000000000000000000000005eee');
+
+const ONE_ETH = BigInt.fromString('1000000000000000000');
+const THREE_ETH = BigInt.fromString('3000000000000000000');
+
+/**
+ * Has AGGREGATOR buy a punk from SELLER for SWEEPER and pass it on, in the given block.
+ * @param punkIndex - The punk index.
+ * @param value - The price in wei.
+ * @param block - The block number.
+ * @param logIndex - The log index of the sale; the transfer to SWEEPER follows it.
+ */
+function buyThroughAggregator(punkIndex: i32, value: BigInt, block: i32, logIndex: i32): void {
+  let punk = BigInt.fromI32(punkIndex);
+
+  let bought = createPunkBoughtEvent(punk, value, SELLER, AGGREGATOR);
+  setEventPosition(bought, block, logIndex);
+  bought.transaction.from = SWEEPER;
+  handlePunkBought(bought);
+
+  let forwarded = createPunkTransferEvent(AGGREGATOR, SWEEPER, punk);
+  setEventPosition(forwarded, block, logIndex + 1);
+  forwarded.transaction.from = SWEEPER;
+  handlePunkTransfer(forwarded);
+}
+
+describe('Sweep', () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test('groups the punks an aggregator buys in one block under the sender', () => {
+    buyThroughAggregator(1, ONE_ETH, 1, 1);
+    assert.entityCount('Sweep', 0);
+
+    buyThroughAggregator(2, THREE_ETH, 1, 3);
+
+    let sweepId = SWEEPER.toHexString() + '-1';
+    assert.entityCount('Sweep', 1);
+    assert.fieldEquals('Sweep', sweepId, 'buyer', SWEEPER.toHexString());
+    assert.fieldEquals('Sweep', sweepId, 'aggregator', AGGREGATOR.toHexString());
+    assert.fieldEquals('Sweep', sweepId, 'punkCount', '2');
+    assert.fieldEquals('Sweep', sweepId, 'totalSpent', '4000000000000000000');
+    assert.fieldEquals('Sweep', sweepId, 'averagePrice', '2000000000000000000');
+
+    // A purchase in a later block starts over
+    buyThroughAggregator(3, ONE_ETH, 2, 1);
+    assert.entityCount('Sweep', 1);
+    assert.fieldEquals('Sweep', sweepId, 'punkCount', '2');
+  });
+
+  test('credits the purchases and holdings to the sender', () => {
+    buyThroughAggregator(1, ONE_ETH, 1, 1);
+    buyThroughAggregator(2, THREE_ETH, 1, 3);
+
+    assert.fieldEquals('Account', SWEEPER.toHexString(), 'punksBought', '2');
+    assert.fieldEquals('Account', SWEEPER.toHexString(), 'ethSpent', '4000000000000000000');
+    assert.fieldEquals('Account', SWEEPER.toHexString(), 'costBasis', '4000000000000000000');
+    assert.fieldEquals('Account', AGGREGATOR.toHexString(), 'punksBought', '0');
+    assert.fieldEquals('Account', AGGREGATOR.toHexString(), 'costBasis', '0');
+
+    let holdingId = (Punk.load('2') as Punk).currentHolding as string;
+    assert.fieldEquals('Holding', holdingId, 'account', SWEEPER.toHexString());
+    assert.fieldEquals('Holding', holdingId, 'acquisitionMethod', 'Purchase');
+    assert.fieldEquals('Holding', holdingId, 'acquisitionValue', THREE_ETH.toString());
+
+    // The aggregator's stint is not a holding period of the punk
+    assert.fieldEquals('Punk', '2', 'closedHoldings', '0');
+  });
+});
@@ -0,0 +1,77 @@
+import { Address, BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, test } from 'matchstick-as/assembly/index';
+
+import { handlePunkBought, handlePunkNoLongerForSale, handlePunkOffered } from '../src/crypto-punks-market';
+import { ZERO_ADDRESS } from '../src/utils/constants';
+import { getPunkTraitIds } from '../src/utils/traits';
+
+import {
+  createPunkBoughtEvent,
+  createPunkNoLongerForSaleEvent,
+  createPunkOfferedEvent,
+  setEventPosition,
+} from './crypto-punks-market-utils';
+
+const SELLER = Address.fromString('0xa16081f360e3847006db660bae1c6d1b2e17ec2a');
+const BUYER = Address.fromString('0x0000000000000000000000000000000000000b0b');
+
+const TEN_ETH = BigInt.fromString('10000000000000000000');
+const FIVE_ETH = BigInt.fromString('5000000000000000000');
+
+/**
+ * Finds the first punk after punk 0 that shares a trait with it.
+ * @param traitId - A trait of punk 0.
+ * @returns The punk ID.
+ */
+function findPunkWithTrait(traitId: string): string {
+  for (let i = 1; i < 10000; i++) {
+    let punkId = i.toString();
+    if (getPunkTraitIds(punkId).includes(traitId)) return punkId;
+  }
+  return '';
+}
+
+describe('TraitMarket', () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test('floor follows listings, delistings and sales of punks with the trait', () => {
+    // The punk type is the first trait of every punk in the dataset
+    let traitIds = getPunkTraitIds('0');
+    assert.assertTrue(traitIds.length > 0);
+    let traitId = traitIds[0];
+    let otherPunkId = findPunkWithTrait(traitId);
+    assert.assertTrue(otherPunkId != '');
+
+    let zero = Address.fromString(ZERO_ADDRESS);
+    let punk = BigInt.fromI32(0);
+    let otherPunk = BigInt.fromString(otherPunkId);
+
+    let offered = createPunkOfferedEvent(punk, TEN_ETH, zero);
+    setEventPosition(offered, 1, 1);
+    handlePunkOffered(offered);
+    assert.fieldEquals('TraitMarket', traitId, 'floor', TEN_ETH.toString());
+    assert.fieldEquals('TraitMarket', traitId, 'activeListingCount', '1');
+
+    let otherOffered = createPunkOfferedEvent(otherPunk, FIVE_ETH, zero);
+    setEventPosition(otherOffered, 2, 1);
+    handlePunkOffered(otherOffered);
+    assert.fieldEquals('TraitMarket', traitId, 'floor', FIVE_ETH.toString());
+    assert.fieldEquals('TraitMarket', traitId, 'activeListingCount', '2');
+
+    let delisted = createPunkNoLongerForSaleEvent(otherPunk);
+    setEventPosition(delisted, 3, 1);
+    handlePunkNoLongerForSale(delisted);
+    assert.fieldEquals('TraitMarket', traitId, 'floor', TEN_ETH.toString());
+    assert.fieldEquals('TraitMarket', traitId, 'activeListingCount', '1');
+
+    let bought = createPunkBoughtEvent(punk, TEN_ETH, SELLER, BUYER);
+    setEventPosition(bought, 4, 1);
+    handlePunkBought(bought);
+    assert.fieldEquals('TraitMarket', traitId, 'floor', '0');
+    assert.fieldEquals('TraitMarket', traitId, 'activeListingCount', '0');
+    assert.fieldEquals('TraitMarket', traitId, 'sales', '1');
+    assert.fieldEquals('TraitMarket', traitId, 'volume', TEN_ETH.toString());
+  });
+});
@@ -0,0 +1,98 @@
+import { Address, BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, newMockEvent, test } from 'matchstick-as/assembly/index';
+
+import { Punk } from '../generated/schema';
+import { handlePunkBought, handlePunkTransfer } from '../src/crypto-punks-market';
+import { MARKET_TOTALS_ID } from '../src/utils/constants';
+import { getOrCreatePunk } from '../src/utils/helpers';
+import { detectWashTrade } from '../src/utils/wash-detection';
+
+import { createPunkBoughtEvent, createPunkTransferEvent, setEventPosition } from './crypto-punks-market-utils';
+
+const ALICE = Address.fromString('0x00000000000000000000000000000000000a11ce');
+const BOB = Address.fromString('0x0000000000000000000000000000000000000b0b');
+const CAROL = Address.fromString('0x00000000000000000000000000000000000ca201');
+
+const PUNK = BigInt.fromI32(1);
+
+const ONE_ETH = BigInt.fromString('1000000000000000000');
+const TEN_ETH = BigInt.fromString('10000000000000000000');
+const TWELVE_ETH = BigInt.fromString('12000000000000000000');
+
+/** Blocks in a day, at 12 seconds per block. */
+const DAY_BLOCKS = 7200;
+
+/**
+ * Sells the punk between two accounts, the buyer sending the transaction.
+ * @param value - The price in wei.
+ * @param seller - The seller's address.
+ * @param buyer - The buyer's address.
+ * @param block - The block number.
+ */
+function sell(value: BigInt, seller: Address, buyer: Address, block: i32): void {
+  let bought = createPunkBoughtEvent(PUNK, value, seller, buyer);
+  setEventPosition(bought, block, 1);
+  bought.transaction.from = buyer;
+  handlePunkBought(bought);
+}
+
+/**
+ * Checks a sale of the punk against the heuristics.
+ * @param seller - The seller's address.
+ * @param buyer - The buyer's address.
+ * @param value - The price in wei.
+ * @param floor - The prevailing floor in wei.
+ * @param block - The block number of the sale.
+ * @returns The flag reasons.
+ */
+function detect(seller: Address, buyer: Address, value: BigInt, floor: BigInt, block: i32): string[] {
+  let event = newMockEvent();
+  setEventPosition(event, block, 1);
+  return detectWashTrade(event, getOrCreatePunk('1'), seller.toHexString(), buyer.toHexString(), value, floor);
+}
+
+describe('Wash trade detection', () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test('flags a sale straight back to the previous seller and leaves it out of top sales and volume', () => {
+    sell(TEN_ETH, ALICE, BOB, 1);
+    sell(TWELVE_ETH, BOB, ALICE, 2);
+
+    let punk = Punk.load('1') as Punk;
+    let lastSale = punk.lastSale as string;
+    assert.fieldEquals('Event', lastSale, 'isFlagged', 'true');
+    assert.fieldEquals('Event', lastSale, 'flagReasons', '[RoundTrip]');
+    assert.fieldEquals('Punk', '1', 'topSalePrice', TEN_ETH.toString());
+    assert.fieldEquals('Punk', '1', 'sales', '2');
+    assert.fieldEquals('MarketTotals', MARKET_TOTALS_ID, 'volume', TEN_ETH.toString());
+  });
+
+  test('flags a punk transferred in and sold straight back', () => {
+    let transferred = createPunkTransferEvent(ALICE, BOB, PUNK);
+    setEventPosition(transferred, 1, 1);
+    handlePunkTransfer(transferred);
+
+    let reasons = detect(BOB, ALICE, TEN_ETH, ONE_ETH, 2);
+    assert.i32Equals(1, reasons.length);
+    assert.stringEquals('RoundTrip', reasons[0]);
+
+    // Past the window the sale back looks genuine
+    assert.i32Equals(0, detect(BOB, ALICE, TEN_ETH, BigInt.zero(), 2 + 31 * DAY_BLOCKS).length);
+  });
+
+  test('flags a sale far above the floor right after the seller acquired the punk', () => {
+    let transferred = createPunkTransferEvent(ALICE, BOB, PUNK);
+    setEventPosition(transferred, 1, 1);
+    handlePunkTransfer(transferred);
+
+    let reasons = detect(BOB, CAROL, TWELVE_ETH, ONE_ETH, 2);
+    assert.i32Equals(1, reasons.length);
+    assert.stringEquals('AboveFloor', reasons[0]);
+
+    // Neither at ten times the floor nor a day later
+    assert.i32Equals(0, detect(BOB, CAROL, TEN_ETH, ONE_ETH, 2).length);
+    assert.i32Equals(0, detect(BOB, CAROL, TWELVE_ETH, ONE_ETH, 2 + DAY_BLOCKS).length);
+  });
+});
@@ -0,0 +1,25 @@
+import { Address, BigInt, ethereum } from '@graphprotocol/graph-ts';
+import { newMockEvent } from 'matchstick-as/assembly/index';
+
+import { ProxyRegistered, Transfer } from '../generated/WrappedPunks/WrappedPunks';
+
+export function createProxyRegisteredEvent(user: Address, proxy: Address): ProxyRegistered {
+  let proxyRegisteredEvent = changetype<ProxyRegistered>(newMockEvent());
+
+  proxyRegisteredEvent.parameters = new Array();
+  proxyRegisteredEvent.parameters.push(new ethereum.EventParam('user', ethereum.Value.fromAddress(user)));
+  proxyRegisteredEvent.parameters.push(new ethereum.EventParam('proxy', ethereum.Value.fromAddress(proxy)));
+
+  return proxyRegisteredEvent;
+}
+
+export function createTransferEvent(from: Address, to: Address, tokenId: BigInt): Transfer {
+  let transferEvent = changetype<Transfer>(newMockEvent());
+
+  transferEvent.parameters = new Array();
+  transferEvent.parameters.push(new ethereum.EventParam('from', ethereum.Value.fromAddress(from)));
+  transferEvent.parameters.push(new ethereum.EventParam('to', ethereum.Value.fromAddress(to)));
+  transferEvent.parameters.push(new ethereum.EventParam('tokenId', ethereum.Value.fromUnsignedBigInt(tokenId)));
+
+  return transferEvent;
+}